@@ -0,0 +1,118 @@
+// Local stand-in for the generation API, for trying the job flow without the real server:
+//   npm run stand-in                          then start the client with VITE_API_URL=http://localhost:8787
+//   STAND_IN_FAIL=1 npm run stand-in          every job fails halfway
+//   STAND_IN_NO_JOBS=1 npm run stand-in       only /transform, like older servers
+// The uploaded image is ignored; every job walks a random thread around a circle of nails.
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const NAIL_COUNT = 200;
+const LINE_COUNT = 1500;
+const LINES_PER_TICK = 50;
+const TICK_MS = 200;
+// 1x1 white PNG
+const IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/x8AAwMCAO+ip1sAAAAASUVORK5CYII=';
+
+const nails = Array.from({ length: NAIL_COUNT }, (_, i) => {
+  const angle = (i / NAIL_COUNT) * 2 * Math.PI;
+  return { x: 250 + 240 * Math.cos(angle), y: 250 + 240 * Math.sin(angle) };
+});
+
+const jobs = new Map();
+
+function randomLines() {
+  const lines = [0];
+  for (let i = 1; i <= LINE_COUNT; i++) {
+    lines.push((lines[i - 1] + 20 + Math.floor(Math.random() * (NAIL_COUNT - 40))) % NAIL_COUNT);
+  }
+  return lines;
+}
+
+function createJob() {
+  const job = { id: randomUUID(), status: 'queued', completed: 0, lines: randomLines(), listeners: new Set(), timer: null };
+  jobs.set(job.id, job);
+
+  job.timer = setInterval(() => {
+    job.status = 'running';
+    job.completed = Math.min(LINE_COUNT, job.completed + LINES_PER_TICK);
+    if (process.env.STAND_IN_FAIL && job.completed >= LINE_COUNT / 2) {
+      finish(job, 'failed');
+    } else if (job.completed === LINE_COUNT) {
+      finish(job, 'done');
+    } else {
+      broadcast(job, 'progress');
+    }
+  }, TICK_MS);
+  return job;
+}
+
+function finish(job, status) {
+  clearInterval(job.timer);
+  job.status = status;
+  broadcast(job, status);
+  for (const response of job.listeners) response.end();
+  job.listeners.clear();
+}
+
+function toStatus(job) {
+  return {
+    status: job.status,
+    completed: job.completed,
+    total: LINE_COUNT,
+    partial: { nails, lines: job.lines.slice(0, job.completed + 1) },
+    result: job.status === 'done' ? { base64Image: IMAGE, stringArt: { nails, lines: job.lines } } : null,
+    error: job.status === 'failed' ? 'The stand-in server was told to fail' : null,
+  };
+}
+
+function broadcast(job, event) {
+  const data = JSON.stringify(toStatus(job));
+  for (const response of job.listeners) {
+    response.write(`event: ${event}\ndata: ${data}\n\n`);
+  }
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+createServer((request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  // The multipart body is not needed, only drained
+  request.resume();
+
+  const [, resource, id, events] = new URL(request.url, 'http://localhost').pathname.split('/');
+  const job = id ? jobs.get(id) : undefined;
+
+  if (resource === 'transform' && request.method === 'POST') {
+    return setTimeout(() => send(response, 200, { base64Image: IMAGE, stringArt: { nails, lines: randomLines() } }), 2000);
+  }
+  if (resource !== 'jobs' || process.env.STAND_IN_NO_JOBS) return send(response, 404, { error: 'Not found' });
+  if (!id && request.method === 'POST') return send(response, 200, { jobId: createJob().id });
+  if (!job) return send(response, 404, { error: 'Unknown job' });
+
+  if (events && request.method === 'GET') {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    response.write(`event: progress\ndata: ${JSON.stringify(toStatus(job))}\n\n`);
+    if (job.status === 'queued' || job.status === 'running') {
+      job.listeners.add(response);
+      request.on('close', () => job.listeners.delete(response));
+    } else {
+      response.end();
+    }
+    return;
+  }
+  if (request.method === 'GET') return send(response, 200, toStatus(job));
+  if (request.method === 'DELETE') {
+    if (job.status === 'queued' || job.status === 'running') finish(job, 'cancelled');
+    return send(response, 204);
+  }
+  send(response, 405, { error: 'Method not allowed' });
+}).listen(PORT, () => {
+  console.log(`Stand-in generation server on http://localhost:${PORT}`);
+});
@@ -1,21 +1,58 @@
-import { Check, Upload, X } from "lucide-react";
-import { useCallback, useState } from "react";
+import { Check, Crop, Cpu, FileUp, Images, LayoutGrid, Server, Upload, X } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Cropper from "react-easy-crop";
-import api from "./api/axios";
+import { onRetry } from "./api/axios";
+import { FileTooLargeError, ImageDecodeError, MAX_IMAGE_BYTES, describeError, isCancellation } from "./api/errors";
+import type { DescribedError } from "./api/errors";
+import { runGenerationJob } from "./api/jobs";
+import type { TransformResult } from "./api/transform";
+import BatchDialog from "./components/BatchDialog";
+import GenerationProgress from "./components/GenerationProgress";
+import NailLayoutPanel from "./components/NailLayoutPanel";
+import ParameterPanel from "./components/ParameterPanel";
+import PatternDropZone from "./components/PatternDropZone";
+import PreprocessPanel from "./components/PreprocessPanel";
+import ProjectGallery from "./components/ProjectGallery";
+import RunComparisonDialog from "./components/RunComparisonDialog";
+import ToastStack from "./components/ToastStack";
+import useOnlineStatus from "./hooks/useOnlineStatus";
+import useProjects from "./hooks/useProjects";
+import useToasts from "./hooks/useToasts";
+import type { BatchItem } from "./lib/batch";
+import { blobToDataUrl, getCroppedImg } from "./lib/cropImage";
+import type { CropArea } from "./lib/cropImage";
+import { IMPORT_ACCEPT, PatternImportError, importPatternFiles } from "./lib/importers";
+import { DEFAULT_LAYOUT, NailLayoutError, generateLayout, validateLayout, withLayout } from "./lib/nailLayout";
+import type { NailLayoutSettings, NailPositions } from "./lib/nailLayout";
+import {
+  DEFAULT_PARAMETERS,
+  boardAspect,
+  hasErrors,
+  resolveParameters,
+  validateParameters,
+} from "./lib/parameters";
+import type { GenerationParameters } from "./lib/parameters";
+import { EMPTY_PATTERN, countStrings } from "./lib/pattern";
+import type { StringArtPattern } from "./lib/pattern";
+import { DEFAULT_PREPROCESS, withPreprocessDefaults } from "./lib/preprocess";
+import type { PreprocessSettings } from "./lib/preprocess";
+import { createProject } from "./lib/projectStore";
+import type { Project } from "./lib/projectStore";
+import { renderThumbnail } from "./lib/renderers";
+import { addRun, createRun, toRunFields } from "./lib/runHistory";
+import type { GenerationRun, RunFields } from "./lib/runHistory";
+import { decodeShare, readShareHash } from "./lib/shareLink";
+import type { ShareViewState } from "./lib/shareLink";
+import { solveLocally } from "./solver/localSolver";
 import StringArtVisualizer from "./StringVisualizer";
 
-interface CropArea {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
 interface Point {
   x: number;
   y: number;
 }
 
+type GenerationMode = 'server' | 'local';
+
 function App() {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
@@ -23,105 +60,419 @@ function App() {
   const [crop, setCrop] = useState<Point>({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
   const [croppedAreaPixels, setCroppedAreaPixels] = useState<CropArea | null>(null);
-  const [artData, setArtData] = useState<{ nails: Point[]; lines: [number, number][] }>({
-    nails: [],
-    lines: [],
-  });
+  const [artData, setArtData] = useState<StringArtPattern>(EMPTY_PATTERN);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('server');
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Null while the server has not said how far along it is
+  const [generationProgress, setGenerationProgress] = useState<number | null>(0);
+  const [partialPattern, setPartialPattern] = useState<StringArtPattern | null>(null);
+  const [parameters, setParameters] = useState<GenerationParameters>(DEFAULT_PARAMETERS);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(DEFAULT_PREPROCESS);
+  const [customLayout, setCustomLayout] = useState(false);
+  const [layoutSettings, setLayoutSettings] = useState<NailLayoutSettings>(DEFAULT_LAYOUT);
+  const [previewLayout, setPreviewLayout] = useState(false);
+  const [usedParameters, setUsedParameters] = useState<GenerationParameters | null>(null);
+  const [generationError, setGenerationError] = useState<DescribedError | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [sourceImage, setSourceImage] = useState<Blob | null>(null);
+  const [sourceName, setSourceName] = useState('Untitled');
+  // A newly picked image only replaces the open one once its crop is confirmed and generated
+  const [pendingSource, setPendingSource] = useState<File | null>(null);
+  const [initialCropPixels, setInitialCropPixels] = useState<CropArea | undefined>(undefined);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // The open project as last saved; the library list only catches up once IndexedDB has finished writing
+  const currentProjectRef = useRef<Project | null>(null);
+  // Images waiting to be queued while the batch dialog is open; null when it is closed
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  // Generations of the open image, so parameter tweaks can be compared instead of overwriting each other
+  const [runs, setRuns] = useState<GenerationRun[]>([]);
+  const [showRunComparison, setShowRunComparison] = useState(false);
+  // View carried by a share link, applied while its pattern is the one shown
+  const [sharedView, setSharedView] = useState<{ pattern: StringArtPattern; view: ShareViewState } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const library = useProjects();
+  const { save: saveToLibrary } = library;
+  const { toasts, notify, dismiss } = useToasts();
+  const online = useOnlineStatus();
+  // The local solver needs no connection
+  const blockedOffline = !online && generationMode === 'server';
+
+  const selectProject = useCallback((project: Project | null) => {
+    currentProjectRef.current = project;
+    setCurrentProjectId(project?.id ?? null);
+  }, []);
+
+  // Later saves build on this copy, so edits right after creating a project are not lost
+  const storeProject = useCallback((project: Project) => {
+    selectProject(project);
+    saveToLibrary(project);
+  }, [selectProject, saveToLibrary]);
+
+  const layoutErrors = useMemo(() => validateLayout(layoutSettings), [layoutSettings]);
+  const layout = useMemo((): { positions: NailPositions | null; error: string | null } => {
+    if (!customLayout || Object.keys(layoutErrors).length > 0) {
+      return { positions: null, error: null };
+    }
+    try {
+      return { positions: generateLayout(layoutSettings), error: null };
+    } catch (error) {
+      if (error instanceof NailLayoutError) {
+        return { positions: null, error: error.message };
+      }
+      throw error;
+    }
+  }, [customLayout, layoutSettings, layoutErrors]);
+  const layoutReady = !customLayout || layout.positions !== null;
+
+  // A custom layout decides the nail count and the board the image is cropped and masked to
+  const effectiveParameters = useMemo(
+    () => (layout.positions ? withLayout(parameters, layout.positions) : parameters),
+    [parameters, layout.positions],
+  );
+  const parameterErrors = useMemo(() => validateParameters(effectiveParameters), [effectiveParameters]);
+  const parametersValid = !hasErrors(parameterErrors) && layoutReady;
+
+  const previewPattern = useMemo(
+    (): StringArtPattern | null => (previewLayout && layout.positions ? { ...layout.positions, lines: [] } : null),
+    [previewLayout, layout.positions],
+  );
+
+  useEffect(() => onRetry(({ attempt, retries, delayMs }) => {
+    notify({
+      tone: 'warning',
+      title: 'Connection problem',
+      message: `Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${retries})`,
+    });
+  }), [notify]);
+
+  const notifyError = useCallback((error: unknown) => {
+    const { title, message } = describeError(error);
+    notify({ tone: 'error', title, message });
+  }, [notify]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    event.target.value = '';
     if (file) {
+      if (!file.type.startsWith('image/')) {
+        notifyError(new ImageDecodeError(`${file.name} is not an image file.`));
+        return;
+      }
+      if (file.size > MAX_IMAGE_BYTES) {
+        notifyError(new FileTooLargeError(file.size));
+        return;
+      }
+      setPendingSource(file);
+      setInitialCropPixels(undefined);
+      setCrop({ x: 0, y: 0 });
+      setZoom(1);
       const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader?.result as string);
+      reader.onload = () => {
+        setSelectedImage(reader.result as string);
         setShowCropModal(true);
       };
+      reader.onerror = () => {
+        console.error('Error reading image file:', reader.error);
+        notifyError(new ImageDecodeError(`${file.name} could not be read.`));
+      };
       reader.readAsDataURL(file);
     }
   }
-  const onCropComplete = useCallback((croppedArea: CropArea, croppedAreaPixels: CropArea) => {
-    setCroppedAreaPixels(croppedAreaPixels);
-  }, []);
+  // Imported and shared patterns have no processed image to go with them and start a project of their own
+  const adoptPattern = useCallback((name: string, pattern: StringArtPattern, patternParameters: GenerationParameters | null) => {
+    setArtData(pattern);
+    setUsedParameters(patternParameters);
+    setProcessedImage(null);
+    setSourceImage(null);
+    setRuns([]);
 
-  const createImage = (url: string): Promise<HTMLImageElement> =>
-    new Promise((resolve, reject) => {
-      const image = new Image();
-      image.addEventListener('load', () => resolve(image));
-      image.addEventListener('error', (error) => reject(error));
-      image.setAttribute('crossOrigin', 'anonymous');
-      image.src = url;
+    const project = createProject({
+      name,
+      originalImage: null,
+      crop: null,
+      preprocess: null,
+      parameters: patternParameters,
+      processedImage: null,
+      pattern,
+      thumbnail: renderThumbnail(pattern),
     });
+    storeProject(project);
+  }, [storeProject]);
+
+  // Links like #share=... open the pattern and the view they carry
+  useEffect(() => {
+    const openSharedLink = async () => {
+      const code = readShareHash(window.location.hash);
+      if (!code) return;
+      // Dropped from the address bar so a reload does not replace later work with the link's pattern
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        const shared = await decodeShare(code);
+        adoptPattern('Shared pattern', shared.pattern, shared.parameters);
+        setSharedView({ pattern: shared.pattern, view: shared.view });
+      } catch (error) {
+        console.error('Error opening share link:', error);
+        notifyError(error);
+      }
+    };
 
-  const getCroppedImg = async (imageSrc: string, pixelCrop: CropArea): Promise<Blob> => {
-    const image = await createImage(imageSrc);
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, [adoptPattern, notifyError]);
 
-    if (!ctx) {
-      throw new Error('No 2d context');
+  const handlePatternFiles = async (files: File[]) => {
+    setImportError(null);
+    // Images dropped on the board go to the batch queue, which crops them one by one
+    if (files.every(file => file.type.startsWith('image/'))) {
+      setBatchFiles(files);
+      return;
+    }
+    try {
+      const imported = await importPatternFiles(files);
+      adoptPattern(imported.name, imported.pattern, imported.parameters);
+    } catch (error) {
+      console.error('Error importing pattern:', error);
+      setImportError(
+        error instanceof PatternImportError
+          ? error.message
+          : 'Could not read the selected file'
+      );
     }
+  };
 
-    canvas.width = pixelCrop.width;
-    canvas.height = pixelCrop.height;
-
-    ctx.drawImage(
-      image,
-      pixelCrop.x,
-      pixelCrop.y,
-      pixelCrop.width,
-      pixelCrop.height,
-      0,
-      0,
-      pixelCrop.width,
-      pixelCrop.height
-    );
-
-    return new Promise((resolve) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          resolve(blob);
-        }
-      }, 'image/jpeg');
-    });
+  const handlePatternFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset so picking the same file again still triggers a change
+    event.target.value = '';
+    if (files.length > 0) {
+      handlePatternFiles(files);
+    }
   };
 
-  const sendImageToServer = async (imageBlob: Blob) => {
-    const formData = new FormData();
-    formData.append('image', imageBlob, 'cropped-image.jpg');
+  const onCropComplete = useCallback((_croppedArea: CropArea, croppedAreaPixels: CropArea) => {
+    setCroppedAreaPixels(croppedAreaPixels);
+  }, []);
 
-    try {
-      const response = await api.post('/transform', formData)
-      return response.data;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-    }
-  }
+  const generateLocally = async (
+    imageBlob: Blob,
+    generationParameters: GenerationParameters,
+    nailLayout: NailPositions | null,
+    signal: AbortSignal,
+  ): Promise<TransformResult> => {
+    const pattern = await solveLocally(imageBlob, {
+      options: { ...generationParameters, layout: nailLayout },
+      signal,
+      onProgress: (completed, total) => setGenerationProgress(completed / total),
+    });
+
+    return {
+      image: await blobToDataUrl(imageBlob),
+      pattern,
+      parameters: generationParameters,
+    };
+  };
+
+  const generateOnServer = (
+    imageBlob: Blob,
+    generationParameters: GenerationParameters,
+    nailLayout: NailPositions | null,
+    signal: AbortSignal,
+  ) =>
+    runGenerationJob({ image: imageBlob, parameters: generationParameters, layout: nailLayout }, {
+      signal,
+      onProgress: ({ completed, total, partial }) => {
+        setGenerationProgress(total > 0 ? completed / total : null);
+        if (partial) {
+          setPartialPattern(partial);
+        }
+      },
+    });
 
   const handleCropConfirm = async () => {
-    if (selectedImage && croppedAreaPixels) {
+    if (selectedImage && croppedAreaPixels && parametersValid && !blockedOffline) {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsGenerating(true);
+      setPreviewLayout(false);
+      setGenerationProgress(generationMode === 'local' ? 0 : null);
+      setGenerationError(null);
       try {
-        const croppedImageBlob = await getCroppedImg(selectedImage, croppedAreaPixels);
-        const result = await sendImageToServer(croppedImageBlob);
-
-        console.log('Server response:', result);
+        const generationParameters = resolveParameters(effectiveParameters);
+        const nailLayout = layout.positions;
+        const croppedImageBlob = await getCroppedImg(
+          selectedImage,
+          croppedAreaPixels,
+          preprocess,
+          generationParameters.boardShape,
+        );
+        const result = generationMode === 'local'
+          ? await generateLocally(croppedImageBlob, generationParameters, nailLayout, controller.signal)
+          : await generateOnServer(croppedImageBlob, generationParameters, nailLayout, controller.signal);
 
-        setProcessedImage(result.base64Image);
-        setArtData(result.stringArt)
+        const resultParameters = result.parameters ?? generationParameters;
+        setProcessedImage(result.image);
+        setArtData(result.pattern)
+        // Prefer the server's echo; fall back to what we sent for older servers
+        setUsedParameters(resultParameters);
         setShowCropModal(false);
         setSelectedImage(null);
+
+        // A new image starts a new project rather than overwriting the open one
+        let name = sourceName;
+        if (pendingSource) {
+          name = pendingSource.name.replace(/\.[^.]+$/, '') || 'Untitled';
+          selectProject(null);
+          setSourceImage(pendingSource);
+          setSourceName(name);
+          setPendingSource(null);
+        }
+        const fields: RunFields = {
+          originalImage: pendingSource ?? sourceImage,
+          crop: { position: crop, zoom, areaPixels: croppedAreaPixels },
+          preprocess,
+          parameters: resultParameters,
+          processedImage: result.image,
+          pattern: result.pattern,
+        };
+        saveGeneratedProject(fields, name);
+        // The history belongs to the image on screen, so a new image starts its own
+        setRuns(prev => addRun(pendingSource ? [] : prev, fields));
       } catch (error) {
-        console.error('Error cropping image:', error);
+        if (isCancellation(error)) {
+          return;
+        }
+        console.error('Error generating string art:', error);
+        // Shown in the crop modal, which comes back once generation stops
+        setGenerationError(describeError(error));
+      } finally {
+        abortControllerRef.current = null;
+        setPartialPattern(null);
+        setIsGenerating(false);
       }
     }
   };
 
+  // Regenerating a reopened project updates it in place; anything else is a new project
+  const saveGeneratedProject = (fields: RunFields, name = sourceName) => {
+    const thumbnail = renderThumbnail(fields.pattern);
+    const existing = currentProjectRef.current;
+    storeProject(existing
+      ? { ...existing, ...fields, thumbnail, updatedAt: Date.now() }
+      : createProject({ ...fields, name, thumbnail }));
+  };
+
+  // Edits made in the visualizer are kept with the open project
+  const handlePatternEdit = (pattern: StringArtPattern) => {
+    setArtData(pattern);
+    const existing = currentProjectRef.current;
+    if (existing) {
+      storeProject({ ...existing, pattern, thumbnail: renderThumbnail(pattern), updatedAt: Date.now() });
+    }
+  };
+
+  // A finished batch item becomes a project of its own, as if it had been generated on its own
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.result) return;
+    const { pattern, image, parameters: resultParameters } = item.result;
+    setArtData(pattern);
+    setUsedParameters(resultParameters);
+    setProcessedImage(image);
+    setSourceImage(item.file);
+    setSourceName(item.name);
+    setImportError(null);
+
+    const fields: RunFields = {
+      originalImage: item.file,
+      crop: item.crop,
+      preprocess,
+      parameters: resultParameters,
+      processedImage: image,
+      pattern,
+    };
+    storeProject(createProject({ ...fields, name: item.name, thumbnail: renderThumbnail(pattern) }));
+    setRuns([createRun(fields)]);
+  };
+
+  // The winner replaces the open project and its settings become the starting point for further tuning
+  const handleKeepRun = (run: GenerationRun) => {
+    setArtData(run.pattern);
+    setUsedParameters(run.parameters);
+    setProcessedImage(run.processedImage);
+    if (run.parameters) {
+      setParameters(run.parameters);
+    }
+    setPreprocess(withPreprocessDefaults(run.preprocess));
+    saveGeneratedProject(toRunFields(run));
+    setRuns([run]);
+    setShowRunComparison(false);
+  };
+
+  const handleOpenProject = (project: Project) => {
+    selectProject(project);
+    setArtData(project.pattern);
+    setUsedParameters(project.parameters);
+    setProcessedImage(project.processedImage);
+    setSourceImage(project.originalImage);
+    setSourceName(project.name);
+    setImportError(null);
+    // Generated projects start their run history with the pattern they were saved with
+    setRuns(project.originalImage ? [createRun(project)] : []);
+    if (project.parameters) {
+      setParameters(project.parameters);
+    }
+    setPreprocess(withPreprocessDefaults(project.preprocess));
+  };
+
+  const handleEditCrop = async () => {
+    if (!sourceImage) return;
+    const cropSettings = currentProjectRef.current?.crop;
+    setCrop(cropSettings?.position ?? { x: 0, y: 0 });
+    setZoom(cropSettings?.zoom ?? 1);
+    setInitialCropPixels(cropSettings?.areaPixels);
+    setGenerationError(null);
+    try {
+      setSelectedImage(await blobToDataUrl(sourceImage));
+      setShowCropModal(true);
+    } catch (error) {
+      console.error('Error reading stored image:', error);
+      notifyError(new ImageDecodeError('The stored original of this project could not be read.'));
+    }
+  };
+
+  const handleDeleteProject = (id: string) => {
+    if (id === currentProjectId) {
+      selectProject(null);
+    }
+    library.remove(id);
+  };
+
+  // The open project's copy has to follow, or its next save would bring the old name back
+  const handleRenameProject = (id: string, name: string) => {
+    const current = currentProjectRef.current;
+    if (current?.id === id) {
+      currentProjectRef.current = { ...current, name };
+    }
+    library.rename(id, name);
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleCropCancel = () => {
+    handleCancelGeneration();
+    setPendingSource(null);
+    setGenerationError(null);
     setShowCropModal(false);
     setSelectedImage(null);
     setCrop({ x: 0, y: 0 });
     setZoom(1);
   };
 
+  const shownPattern = previewPattern ?? partialPattern ?? artData;
+
   console.log('Art Data nails:', artData.nails);
   console.log('Art Data lines:', artData.lines);
 
@@ -170,19 +521,172 @@ function App() {
                 Select Image File
               </div>
             </label>
+
+            {/* Pattern File Button */}
+            <label className="block">
+              <input
+                type="file"
+                accept={IMPORT_ACCEPT}
+                multiple
+                onChange={handlePatternFileSelect}
+                className="hidden"
+              />
+              <div className="w-full bg-transparent border border-green-400 border-opacity-40 text-green-400 py-2 px-4 rounded-lg cursor-pointer hover:border-opacity-100 transition-all duration-300 text-center text-sm flex items-center justify-center space-x-2">
+                <FileUp className="w-4 h-4" />
+                <span>Open Pattern File</span>
+              </div>
+            </label>
+
+            {/* Many images at once, cropped in a queue and zipped together */}
+            <button
+              onClick={() => setBatchFiles([])}
+              className="w-full bg-transparent border border-green-400 border-opacity-40 text-green-400 py-2 px-4 rounded-lg hover:border-opacity-100 transition-all duration-300 text-center text-sm flex items-center justify-center space-x-2"
+            >
+              <Images className="w-4 h-4" />
+              <span>Batch Images</span>
+            </button>
+            {importError && (
+              <p className="text-xs text-red-400 border border-red-400 border-opacity-50 rounded p-2">
+                {importError}
+              </p>
+            )}
+
+            {/* Re-crop the stored original of the open project */}
+            {sourceImage && !showCropModal && (
+              <button
+                onClick={handleEditCrop}
+                disabled={isGenerating}
+                className="w-full bg-transparent border border-green-400 border-opacity-40 text-green-400 py-2 px-4 rounded-lg hover:border-opacity-100 transition-all duration-300 text-center text-sm flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <Crop className="w-4 h-4" />
+                <span>Edit Crop &amp; Regenerate</span>
+              </button>
+            )}
+
+            {runs.length > 1 && (
+              <button
+                onClick={() => setShowRunComparison(true)}
+                disabled={isGenerating}
+                className="w-full bg-transparent border border-green-400 border-opacity-40 text-green-400 py-2 px-4 rounded-lg hover:border-opacity-100 transition-all duration-300 text-center text-sm flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <LayoutGrid className="w-4 h-4" />
+                <span>Compare Runs ({runs.length})</span>
+              </button>
+            )}
+          </div>
+
+          {/* Saved Projects */}
+          <ProjectGallery
+            projects={library.projects}
+            activeId={currentProjectId}
+            usage={library.usage}
+            error={library.error}
+            onOpen={handleOpenProject}
+            onRename={handleRenameProject}
+            onDuplicate={library.duplicate}
+            onDelete={handleDeleteProject}
+          />
+
+          {/* Generation Mode */}
+          <div className="space-y-2">
+            <p className="text-sm opacity-80">Generation</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { mode: 'server', label: 'Server', Icon: Server },
+                { mode: 'local', label: 'Local', Icon: Cpu },
+              ] as const).map(({ mode, label, Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => setGenerationMode(mode)}
+                  disabled={isGenerating}
+                  className={`py-2 px-3 rounded-lg border flex items-center justify-center space-x-2 text-sm transition-all duration-300 ${
+                    generationMode === mode
+                      ? 'bg-green-400 text-black border-green-400'
+                      : 'border-green-400 border-opacity-50 text-green-400 hover:border-opacity-100'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs opacity-60">
+              {generationMode === 'local'
+                ? 'Runs the solver in your browser, no upload needed'
+                : 'Sends the cropped image to the transform server'}
+            </p>
+            {blockedOffline && (
+              <p className="text-xs text-yellow-400">Offline: server generation is unavailable until you reconnect</p>
+            )}
           </div>
+
+          {/* Generation Parameters */}
+          <ParameterPanel
+            parameters={effectiveParameters}
+            errors={parameterErrors}
+            onChange={setParameters}
+            disabled={isGenerating}
+            layoutActive={layout.positions !== null}
+          />
+
+          {/* Custom Nail Layout */}
+          <NailLayoutPanel
+            enabled={customLayout}
+            settings={layoutSettings}
+            errors={layout.error ? { ...layoutErrors, path: layout.error } : layoutErrors}
+            nailTotal={layout.positions?.nails.length ?? null}
+            previewing={previewPattern !== null}
+            onEnabledChange={(enabled) => {
+              setCustomLayout(enabled);
+              setPreviewLayout(enabled);
+            }}
+            onChange={setLayoutSettings}
+            onPreviewChange={setPreviewLayout}
+            disabled={isGenerating}
+          />
+
+          {/* Parameters that produced the current pattern */}
+          {usedParameters && (
+            <div className="space-y-1 text-xs border border-green-400 border-opacity-30 rounded-lg p-3">
+              <p className="opacity-80">Current pattern</p>
+              <p>{usedParameters.nailCount} nails · {usedParameters.maxLines} lines · weight {usedParameters.lineWeight}</p>
+              <p>
+                skip {usedParameters.minDistance} · {usedParameters.boardShape}
+                {boardAspect(usedParameters) !== 1 && ` ${boardAspect(usedParameters)}:1`} · seed {usedParameters.seed ?? 'random'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Right Panel - 3/4 of the screen (empty) */}
       <div className="flex-1 p-6 bg-black bg-opacity-50">
-        < StringArtVisualizer nails={artData.nails} lines={artData.lines} />
+        {isGenerating && (
+          <GenerationProgress
+            label={generationMode === 'local' ? 'Solving locally...' : 'Generating on server...'}
+            progress={generationProgress}
+            partialStrings={partialPattern ? countStrings(partialPattern) : 0}
+            onCancel={handleCancelGeneration}
+          />
+        )}
+        <PatternDropZone onFiles={handlePatternFiles}>
+          {/* Strings streamed in by the server replace the board until the job settles; a layout preview
+              stands in for the pattern while it is on */}
+          < StringArtVisualizer
+            pattern={shownPattern}
+            parameters={usedParameters}
+            sourceImage={processedImage}
+            live={partialPattern !== null}
+            onPatternChange={isGenerating || shownPattern !== artData ? undefined : handlePatternEdit}
+            initialView={shownPattern === artData && sharedView?.pattern === artData ? sharedView.view : null}
+          />
+        </PatternDropZone>
       </div>
 
-      {/* Crop Modal */}
-      {showCropModal && selectedImage && (
+      {/* Crop Modal, stepped aside while generating so progress shows on the board; comes back on failure or cancel */}
+      {showCropModal && selectedImage && !isGenerating && (
         <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50">
-          <div className="bg-black border border-green-400 border-opacity-50 rounded-lg p-6 max-w-2xl w-full mx-4">
+          <div className="bg-black border border-green-400 border-opacity-50 rounded-lg p-6 max-w-5xl w-full mx-4 max-h-screen overflow-y-auto">
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-bold text-green-400">Crop Image</h2>
@@ -194,30 +698,61 @@ function App() {
                 </button>
               </div>
               
-              <div className="relative h-96 bg-black rounded-lg overflow-hidden">
-                <Cropper
-                  image={selectedImage}
-                  crop={crop}
-                  zoom={zoom}
-                  aspect={1}
-                  onCropChange={setCrop}
-                  onCropComplete={onCropComplete}
-                  onZoomChange={setZoom}
-                  style={{
-                    containerStyle: {
-                      background: '#000000',
-                    },
-                  }}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="relative h-96 md:col-span-2 bg-black rounded-lg overflow-hidden">
+                  <Cropper
+                    image={selectedImage}
+                    crop={crop}
+                    zoom={zoom}
+                    initialCroppedAreaPixels={initialCropPixels}
+                    aspect={parametersValid ? boardAspect(effectiveParameters) : 1}
+                    onCropChange={setCrop}
+                    onCropComplete={onCropComplete}
+                    onZoomChange={setZoom}
+                    style={{
+                      containerStyle: {
+                        background: '#000000',
+                      },
+                    }}
+                  />
+                </div>
+
+                <PreprocessPanel
+                  imageSrc={selectedImage}
+                  area={croppedAreaPixels}
+                  settings={preprocess}
+                  boardShape={effectiveParameters.boardShape}
+                  onChange={setPreprocess}
+                  disabled={isGenerating}
                 />
               </div>
               
               <div className="space-y-4">
-                
+                {generationError && (
+                  <div role="alert" className="text-sm text-red-400 border border-red-400 border-opacity-50 rounded p-2">
+                    <p className="font-bold">{generationError.title}</p>
+                    <p className="opacity-80">{generationError.message}</p>
+                  </div>
+                )}
+
+                {blockedOffline && (
+                  <p className="text-sm text-yellow-400 border border-yellow-400 border-opacity-50 rounded p-2">
+                    You are offline, so the image cannot be sent to the server. Reconnect, or switch to local
+                    generation, which runs in the browser.
+                  </p>
+                )}
+
+                {!parametersValid && (
+                  <p className="text-sm text-red-400">Fix the generation parameters before confirming.</p>
+                )}
+
                 <div className="flex space-x-3">
                   <button
                     onClick={handleCropConfirm}
+                    disabled={isGenerating || !parametersValid || blockedOffline}
                     className="flex-1 text-black bg-green-400 bg-opacity-20 border border-green-400 py-3 px-4 rounded-lg
-                    hover:bg-black hover:text-green-400 hover:bg-opacity-30 transition-all duration-300 flex items-center justify-center space-x-2 font-medium"
+                    hover:bg-black hover:text-green-400 hover:bg-opacity-30 transition-all duration-300 flex items-center justify-center space-x-2 font-medium
+                    disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Check className="w-5 h-5" />
                     <span >Confirm Crop</span>
@@ -235,6 +770,31 @@ function App() {
           </div>
         </div>
       )}
+
+      {showRunComparison && (
+        <RunComparisonDialog
+          runs={runs}
+          currentPattern={artData}
+          onKeep={handleKeepRun}
+          onRemove={(id) => setRuns(prev => prev.filter(run => run.id !== id))}
+          onClose={() => setShowRunComparison(false)}
+        />
+      )}
+
+      {batchFiles && (
+        <BatchDialog
+          initialFiles={batchFiles}
+          parameters={parameters}
+          parametersValid={parametersValid}
+          layout={layout.positions}
+          preprocess={preprocess}
+          online={online}
+          onOpen={handleOpenBatchItem}
+          onClose={() => setBatchFiles(null)}
+        />
+      )}
+
+      <ToastStack toasts={toasts} onDismiss={dismiss} />
     </div>
   );
 }
@@ -1,269 +1,526 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Stage, Layer, Circle, Line, Text, Group } from 'react-konva';
-
-interface Nail {
-  x: number;
-  y: number;
-}
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Columns2, Hammer, Link2, PencilLine, Ruler, Scissors } from 'lucide-react';
+import { Stage, Layer, Circle, Ellipse, Line, Rect, Text, Group } from 'react-konva';
+import Konva from 'konva';
+import BuildPanel from './components/BuildPanel';
+import ComparisonDialog from './components/ComparisonDialog';
+import DrillTemplateDialog from './components/DrillTemplateDialog';
+import EditPanel from './components/EditPanel';
+import ExportMenu from './components/ExportMenu';
+import ImageExportDialog from './components/ImageExportDialog';
+import LineBudgetPanel from './components/LineBudgetPanel';
+import Minimap from './components/Minimap';
+import PlaybackControls from './components/PlaybackControls';
+import StatsPanel from './components/StatsPanel';
+import StringLayer from './components/StringLayer';
+import ViewControls from './components/ViewControls';
+import useBuildMode from './hooks/useBuildMode';
+import useBuildProgress from './hooks/useBuildProgress';
+import useDevicePixelRatio from './hooks/useDevicePixelRatio';
+import useElementSize from './hooks/useElementSize';
+import usePatternEditing from './hooks/usePatternEditing';
+import usePatternHistory from './hooks/usePatternHistory';
+import usePlayback from './hooks/usePlayback';
+import useStageView from './hooks/useStageView';
+import type { VisualizerSync } from './hooks/useStageView';
+import useTrimMode from './hooks/useTrimMode';
+import type { GenerationParameters } from './lib/parameters';
+import { getPatternBounds, getPatternId, getStrings, getThreadLayers, isMultiColor } from './lib/pattern';
+import { DEFAULT_RENDER_STYLE, fitTransform, renderToCanvas } from './lib/renderers';
+import { encodeShare, toShareUrl } from './lib/shareLink';
+import type { ShareViewState } from './lib/shareLink';
+import type { StringArtPattern } from './lib/pattern';
 
 interface StringArtVisualizerProps {
-  nails: Nail[];
-  lines: number[];  // Array of nail indices from your server
-  canvasSize?: number;
+  pattern: StringArtPattern;
+  parameters?: GenerationParameters | null;  // Settings that produced the pattern, included in exports
+  sourceImage?: string | null;               // Processed image the pattern was generated from, for comparison
+  live?: boolean;                            // Pattern is still growing; show every string as it arrives
+  onPatternChange?: (pattern: StringArtPattern) => void;  // Enables edit mode and the line budget
+  initialView?: ShareViewState | null;       // View to restore instead of starting empty, e.g. from a share link
+  canvasSize?: number;                       // Stage width until the canvas area has been measured
+  sync?: VisualizerSync | null;              // Replaces the visualizer's own controls with shared ones
 }
 
-export default function StringArtVisualizer({ nails, lines, canvasSize = 600 }: StringArtVisualizerProps) {
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [animationSpeed, setAnimationSpeed] = useState(10);
-  const [scale, setScale] = useState(1);
-  const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [showNails, setShowNails] = useState(true);
+// How close a click has to be to a string or nail to hit it, in screen pixels
+const EDIT_HIT_RADIUS = 8;
+const MINIMAP_WIDTH = 160;
+
+const ignoreChange = () => {};
+
+export default function StringArtVisualizer({
+  pattern: basePattern,
+  parameters = null,
+  sourceImage = null,
+  live = false,
+  onPatternChange,
+  initialView = null,
+  canvasSize = 600,
+  sync = null,
+}: StringArtVisualizerProps) {
+  const history = usePatternHistory(basePattern, onPatternChange ?? ignoreChange);
+  // The line budget needs the source to rank strings against, and trims through the same path as edits
+  const trim = useTrimMode(basePattern, onPatternChange !== undefined && sourceImage !== null && !live, history.apply);
+  const { trimming, pattern } = trim;
+  const { nails } = pattern;
+  const strings = useMemo(() => getStrings(pattern), [pattern]);
+  const threads = useMemo(() => getThreadLayers(pattern), [pattern]);
+  const multiColor = isMultiColor(pattern);
+  const stringCount = strings.length;
+  // Timeline positions follow currentLineIndex, so one more than there are strings
+  const timelineLength = stringCount > 0 ? stringCount + 1 : 0;
+  const {
+    position: ownLineIndex,
+    isPlaying: isAnimating,
+    speed: animationSpeed,
+    setSpeed: setAnimationSpeed,
+    play,
+    pause,
+    seek,
+    step,
+  } = usePlayback(timelineLength);
+  const currentLineIndex = sync ? Math.min(sync.lineIndex, timelineLength) : ownLineIndex;
+  const [showImageExport, setShowImageExport] = useState(false);
+  const [showTemplate, setShowTemplate] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const patternId = useMemo(() => getPatternId(pattern), [pattern]);
+  const build = useBuildProgress(patternId, stringCount);
+  const buildMode = useBuildMode(build);
+  const [ownShowNails, setShowNails] = useState(true);
+  const showNails = sync ? sync.showNails : ownShowNails;
   const [showNailNumbers, setShowNailNumbers] = useState(false);
+  const [hiddenLayers, setHiddenLayers] = useState<number[]>([]);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  // A pattern that is still arriving cannot be edited
+  const edit = usePatternEditing({
+    pattern,
+    strings,
+    hiddenLayers,
+    enabled: onPatternChange !== undefined && !live,
+    apply: history.apply,
+    undo: history.undo,
+    redo: history.redo,
+  });
+  const { editing, selectedString } = edit;
+
+  // Leaving a trim preview swaps the strings back, which would otherwise start the timeline over
+  const keepAllLinesRef = useRef(false);
+  const [canvasRef, canvasArea] = useElementSize<HTMLDivElement>();
+  const pixelRatio = useDevicePixelRatio();
   
-  const animationRef = useRef<number>();
-  const stageRef = useRef<any>(null);
-  
-  // Stage dimensions
-  const STAGE_WIDTH = canvasSize;
-  const STAGE_HEIGHT = canvasSize;
-  
-  // Scale nails to fit the stage
-  const scaledNails = nails.map(nail => ({
-    x: (nail.x / 300) * STAGE_WIDTH,
-    y: (nail.y / 300) * STAGE_HEIGHT
-  }));
-
-  // Convert line indices to coordinate pairs for rendering
-  const getVisibleLines = () => {
-    if (!lines || currentLineIndex < 2) return [];
-    
-    const lineCoords = [];
-    for (let i = 1; i < Math.min(currentLineIndex, lines.length); i++) {
-      const nail1Index = lines[i - 1];
-      const nail2Index = lines[i];
-      
-      if (scaledNails[nail1Index] && scaledNails[nail2Index]) {
-        lineCoords.push([
-          scaledNails[nail1Index].x,
-          scaledNails[nail1Index].y,
-          scaledNails[nail2Index].x,
-          scaledNails[nail2Index].y
-        ]);
-      }
-    }
-    return lineCoords;
+  // Stage fills the width of its container and follows the board's aspect ratio within reasonable limits
+  const bounds = getPatternBounds(pattern);
+  const boardAspect = Math.min(Math.max(bounds.height / bounds.width, 0.5), 1.5);
+  const STAGE_WIDTH = canvasArea?.width || canvasSize;
+  const STAGE_HEIGHT = canvasArea?.height || Math.round(canvasSize * boardAspect);
+  const PADDING = 20;
+  const stageView = useStageView(STAGE_WIDTH, STAGE_HEIGHT, sync);
+  const { stageRef, view, scale, position } = stageView;
+
+  // Fit the pattern's coordinate space into the stage and center it
+  const { scale: fitScale, x: offsetX, y: offsetY } = fitTransform(bounds, STAGE_WIDTH, STAGE_HEIGHT, PADDING);
+
+  // Memoized so the string buffer is only rebuilt when the geometry really changes
+  const scaledNails = useMemo(() => nails.map(nail => ({
+    x: offsetX + nail.x * fitScale,
+    y: offsetY + nail.y * fitScale
+  })), [nails, offsetX, offsetY, fitScale]);
+
+  // Only needed while zoomed in, when part of the board is off screen
+  const zoomedIn = scale > 1;
+  const minimapScale = MINIMAP_WIDTH / STAGE_WIDTH;
+  const minimapImage = useMemo(() => {
+    if (!zoomedIn || nails.length === 0) return null;
+    return renderToCanvas(pattern, {
+      ...DEFAULT_RENDER_STYLE,
+      threadWidth: 0.5 / minimapScale,
+      showNails: false,
+      width: MINIMAP_WIDTH,
+      height: Math.round(STAGE_HEIGHT * minimapScale),
+      patternToStage: { scale: fitScale, x: offsetX, y: offsetY },
+      stageToOutput: { scale: minimapScale, x: 0, y: 0 },
+      visibleCount: timelineLength,
+      hiddenLayers,
+    }).toDataURL();
+  }, [zoomedIn, pattern, nails.length, minimapScale, STAGE_HEIGHT, fitScale, offsetX, offsetY, timelineLength, hiddenLayers]);
+
+
+  const resetAnimation = () => {
+    pause();
+    seek(0);
   };
 
-  const startAnimation = () => {
-    if (!lines || lines.length === 0) return;
-    
-    setCurrentLineIndex(0);
-    setIsAnimating(true);
-    
-    const animate = () => {
-      setCurrentLineIndex(prev => {
-        const next = prev + animationSpeed;
-        if (next >= lines.length) {
-          setIsAnimating(false);
-          return lines.length;
-        }
-        return next;
-      });
-      
-      if (isAnimating) {
-        animationRef.current = requestAnimationFrame(animate);
-      }
-    };
-    
-    animationRef.current = requestAnimationFrame(animate);
+  const showAllLines = () => {
+    pause();
+    seek(timelineLength);
   };
 
-  const stopAnimation = () => {
-    setIsAnimating(false);
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
-    }
+  const toggleLayer = (layer: number) => {
+    setHiddenLayers(prev => prev.includes(layer) ? prev.filter(index => index !== layer) : [...prev, layer]);
   };
 
-  const resetAnimation = () => {
-    stopAnimation();
-    setCurrentLineIndex(0);
+  const enterEditMode = () => {
+    pause();
+    edit.enter();
   };
 
-  const showAllLines = () => {
-    stopAnimation();
-    if (lines) {
-      setCurrentLineIndex(lines.length);
-    }
+  const exitEditMode = () => {
+    edit.exit();
+    showAllLines();
   };
 
-  const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setAnimationSpeed(parseInt(e.target.value));
+  const enterTrimMode = () => {
+    pause();
+    trim.enter();
   };
 
-  const handleWheel = (e: any) => {
-    e.evt.preventDefault();
+  const exitTrimMode = () => {
+    keepAllLinesRef.current = trim.exit();
+    showAllLines();
+  };
 
-    const scaleBy = 1.1;
-    const stage = stageRef.current;
-    const oldScale = stage.scaleX(); 
-    const pointer = stage.getPointerPosition();
+  const applyBudget = (trimmed: StringArtPattern) => {
+    keepAllLinesRef.current = trim.apply(trimmed);
+    showAllLines();
+  };
 
-    const mousePointTo = {
-      x: (pointer.x - stage.x()) / oldScale,
-      y: (pointer.y - stage.y()) / oldScale,
+  const enterBuildMode = () => {
+    pause();
+    buildMode.enter();
+  };
+
+  const restartBuild = () => {
+    if (window.confirm('Restart the build from the first string?')) {
+      build.setStep(0);
+    }
+  };
+
+  // Clicks land in stage pixels; edits work in the pattern's own coordinates
+  const toPatternPoint = (stage: Konva.Stage) => {
+    const pointer = stage.getPointerPosition();
+    if (!pointer) return null;
+    return {
+      x: ((pointer.x - position.x) / scale - offsetX) / fitScale,
+      y: ((pointer.y - position.y) / scale - offsetY) / fitScale,
     };
+  };
 
-    const newScale = e.evt.deltaY > 0 ? oldScale / scaleBy : oldScale * scaleBy;
+  const handleEditClick = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const stage = e.target.getStage();
+    const point = stage && toPatternPoint(stage);
+    if (!point) return;
+    edit.handleClick(point, EDIT_HIT_RADIUS / (scale * fitScale));
+  };
 
-    const clampedScale = Math.max(0.1, Math.min(newScale, 3));
+  const handleNailDragEnd = (index: number) => (e: Konva.KonvaEventObject<DragEvent>) => {
+    edit.handleNailMove(index, {
+      x: (e.target.x() - offsetX) / fitScale,
+      y: (e.target.y() - offsetY) / fitScale,
+    });
+  };
 
-    setScale(clampedScale);
-    setPosition({
-      x: pointer.x - mousePointTo.x * clampedScale,
-      y: pointer.y - mousePointTo.y * clampedScale,
+  // Board edge to edge, without the padding of the default view
+  const fitToBoard = () => {
+    stageView.fitTo({
+      x: offsetX + bounds.x * fitScale,
+      y: offsetY + bounds.y * fitScale,
+      width: bounds.width * fitScale,
+      height: bounds.height * fitScale,
     });
-  }
+  };
+
+  // Everything needed to reopen this exact view lives in the link, nothing is stored on a server
+  const handleShare = async () => {
+    try {
+      const code = await encodeShare({
+        pattern,
+        parameters,
+        view: {
+          currentLineIndex,
+          scale,
+          position: { x: view.x, y: view.y },
+          showNails,
+          showNailNumbers,
+          hiddenLayers,
+        },
+      });
+      await navigator.clipboard.writeText(toShareUrl(code));
+      setShareStatus('copied');
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      setShareStatus('failed');
+    }
+  };
 
-  // Cleanup animation on unmount
+  // Konva sizes its canvases for the screen it started on; follow moves to other screens and page zoom
   useEffect(() => {
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, []);
+    Konva.pixelRatio = pixelRatio;
+    const stage = stageRef.current;
+    if (!stage) return;
+    stage.getLayers().forEach(layer => layer.getCanvas().setPixelRatio(pixelRatio));
+    stage.batchDraw();
+  }, [pixelRatio, stageRef]);
 
-  // Stop animation when component updates
+  // Start every new pattern from an empty board with all threads shown; live patterns stay fully drawn
+  // and shared ones open exactly as they were shared
+  const { restoreView } = stageView;
   useEffect(() => {
-    if (!isAnimating && animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+    pause();
+    if (initialView) {
+      seek(initialView.currentLineIndex);
+      restoreView({ scale: initialView.scale, ...initialView.position });
+      setShowNails(initialView.showNails);
+      setShowNailNumbers(initialView.showNailNumbers);
+      setHiddenLayers(initialView.hiddenLayers);
+      return;
     }
-  }, [isAnimating]);
+    seek(live || keepAllLinesRef.current ? timelineLength : 0);
+    keepAllLinesRef.current = false;
+    setHiddenLayers([]);
+  }, [strings, live, timelineLength, initialView, pause, seek, restoreView]);
 
-  if (!nails || !lines || nails.length === 0 || lines.length === 0) {
+  useEffect(() => {
+    if (shareStatus === 'idle') return;
+    const timeout = setTimeout(() => setShareStatus('idle'), 2500);
+    return () => clearTimeout(timeout);
+  }, [shareStatus]);
+
+  if (!nails || nails.length === 0) {
     return (
       <div className="w-full h-96 bg-gray-900 rounded-lg flex items-center justify-center">
-        <div className="text-white text-lg">No string art data available</div>
+        <div className="text-center space-y-2">
+          <div className="text-white text-lg">No string art data available</div>
+          <div className="text-gray-400 text-sm">Generate one from an image or drop a pattern file here</div>
+        </div>
       </div>
     );
   }
 
-  const visibleLines = getVisibleLines();
-  const progress = lines.length > 0 ? 
-    ((currentLineIndex / lines.length) * 100).toFixed(1) : 0;
+  const progress = timelineLength > 0 ? 
+    ((currentLineIndex / timelineLength) * 100).toFixed(1) : 0;
+
+  // In build mode the board shows the strings already wound plus the next one highlighted
+  const buildString = build.step < stringCount ? strings[build.step] : null;
+  const buildFrom = buildString ? buildString.from : null;
+  const buildTo = buildString ? buildString.to : null;
+  // Editing and trimming work on the whole pattern, so every string is shown
+  const visibleCount = buildMode.active ? build.step + 1 : editing || trimming ? timelineLength : currentLineIndex;
 
   return (
     <div className="w-full bg-gray-900 rounded-lg overflow-hidden">
-      {/* Controls */}
-      <div className="p-4 bg-gray-800 border-b border-gray-700">
-        <div className="flex flex-wrap gap-3 items-center justify-between">
-          <div className="flex gap-2">
-            <button
-              onClick={startAnimation}
-              disabled={isAnimating}
-              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
-            >
-              {isAnimating ? 'Animating...' : 'Start Animation'}
-            </button>
+      {/* Synced visualizers are driven by their parent's controls */}
+      {sync ? null : buildMode.active ? (
+        <BuildPanel
+          step={build.step}
+          total={stringCount}
+          from={buildFrom}
+          to={buildTo}
+          thread={multiColor && buildString ? threads[buildString.layer] : null}
+          onNext={build.advance}
+          onUndo={build.undo}
+          onRestart={restartBuild}
+          onExit={buildMode.exit}
+        />
+      ) : editing ? (
+        <EditPanel
+          tool={edit.tool}
+          selected={edit.selection}
+          selectedString={selectedString}
+          total={stringCount}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+          onToolChange={edit.setTool}
+          onDelete={edit.deleteSelected}
+          onTruncate={edit.truncateAfterSelected}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onExit={exitEditMode}
+        />
+      ) : trimming && sourceImage ? (
+        <LineBudgetPanel
+          pattern={basePattern}
+          sourceImage={sourceImage}
+          parameters={parameters}
+          onPreview={trim.showPreview}
+          onApply={applyBudget}
+          onExit={exitTrimMode}
+        />
+      ) : stringCount === 0 ? (
+        /* Nails without strings, e.g. a layout preview */
+        <div className="p-4 bg-gray-800 border-b border-gray-700 flex items-center justify-between">
+          <div className="text-white text-sm">{nails.length} nails · no strings yet</div>
+          <label className="flex items-center gap-2 text-white text-sm">
+            <input
+              type="checkbox"
+              checked={showNailNumbers}
+              onChange={(e) => setShowNailNumbers(e.target.checked)}
+              className="rounded"
+            />
+            Numbers
+          </label>
+        </div>
+      ) : (
+        <PlaybackControls
+          position={currentLineIndex}
+          total={timelineLength}
+          isPlaying={isAnimating}
+          speed={animationSpeed}
+          showNails={showNails}
+          showNailNumbers={showNailNumbers}
+          threads={multiColor ? threads : null}
+          hiddenLayers={hiddenLayers}
+          onPlay={play}
+          onPause={pause}
+          onShowAll={showAllLines}
+          onReset={resetAnimation}
+          onSeek={(target) => {
+            pause();
+            seek(target);
+          }}
+          onStep={step}
+          onSpeedChange={setAnimationSpeed}
+          onShowNailsChange={setShowNails}
+          onShowNailNumbersChange={setShowNailNumbers}
+          onToggleLayer={toggleLayer}
+        >
+          <button
+            onClick={enterBuildMode}
+            className="flex items-center gap-1 px-4 py-2 bg-cyan-700 hover:bg-cyan-800 text-white rounded-md text-sm transition-colors"
+            title={build.step > 0 ? `Resume at string ${build.step + 1}` : 'Walk through the nail sequence'}
+          >
+            <Hammer className="w-4 h-4" />
+            {build.step > 0 ? 'Resume Build' : 'Build Mode'}
+          </button>
+          {onPatternChange && (
             <button
-              onClick={stopAnimation}
-              disabled={!isAnimating}
-              className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
+              onClick={enterEditMode}
+              disabled={live}
+              className="flex items-center gap-1 px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
+              title="Fix, remove or add strings and move nails"
             >
-              Pause
+              <PencilLine className="w-4 h-4" />
+              Edit
             </button>
+          )}
+          {onPatternChange && sourceImage && (
             <button
-              onClick={showAllLines}
-              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm transition-colors"
+              onClick={enterTrimMode}
+              disabled={live}
+              className="flex items-center gap-1 px-4 py-2 bg-rose-600 hover:bg-rose-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
+              title="Trim to fewer strings, keeping the ones that matter most"
             >
-              Show All
+              <Scissors className="w-4 h-4" />
+              Line Budget
             </button>
+          )}
+          {sourceImage && (
             <button
-              onClick={resetAnimation}
-              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm transition-colors"
+              onClick={() => {
+                pause();
+                setShowComparison(true);
+              }}
+              className="flex items-center gap-1 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md text-sm transition-colors"
+              title="Compare the strings with the source image"
             >
-              Reset
+              <Columns2 className="w-4 h-4" />
+              Compare
             </button>
-          </div>
-          
-          <div className="flex items-center gap-4">
-            <label className="flex items-center gap-2 text-white text-sm">
-              Speed:
-              <input
-                type="range"
-                min="1"
-                max="50"
-                value={animationSpeed}
-                onChange={handleSpeedChange}
-                className="w-20"
-              />
-              <span className="w-8 text-center">{animationSpeed}</span>
-            </label>
-            
-            <label className="flex items-center gap-2 text-white text-sm">
-              <input
-                type="checkbox"
-                checked={showNails}
-                onChange={(e) => setShowNails(e.target.checked)}
-                className="rounded"
-              />
-              Nails
-            </label>
-            
-            <label className="flex items-center gap-2 text-white text-sm">
-              <input
-                type="checkbox"
-                checked={showNailNumbers}
-                onChange={(e) => setShowNailNumbers(e.target.checked)}
-                className="rounded"
-              />
-              Numbers
-            </label>
-            
-            <div className="text-white text-sm">
-              Progress: {currentLineIndex} / {lines.length} ({progress}%)
-            </div>
-          </div>
-        </div>
-      </div>
+          )}
+          <button
+            onClick={() => setShowStats(prev => !prev)}
+            className={`flex items-center gap-1 px-4 py-2 text-white rounded-md text-sm transition-colors ${
+              showStats ? 'bg-teal-800 hover:bg-teal-900' : 'bg-teal-600 hover:bg-teal-700'
+            }`}
+            title="Thread length, nail use and build time"
+          >
+            <Ruler className="w-4 h-4" />
+            Materials
+          </button>
+          <button
+            onClick={handleShare}
+            className="flex items-center gap-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm transition-colors"
+            title="Copy a link that opens this pattern and view"
+          >
+            <Link2 className="w-4 h-4" />
+            {shareStatus === 'copied' ? 'Link copied' : shareStatus === 'failed' ? 'Copy failed' : 'Share'}
+          </button>
+          <ExportMenu
+            pattern={pattern}
+            parameters={parameters}
+            fileName={`string-art-${patternId}`}
+            onExportImage={() => setShowImageExport(true)}
+            onExportTemplate={() => setShowTemplate(true)}
+          />
+        </PlaybackControls>
+      )}
 
       {/* Canvas */}
-      <div className="relative" style={{ height: STAGE_HEIGHT }}>
+      <div
+        ref={canvasRef}
+        className={`relative w-full ${editing ? 'cursor-crosshair' : ''}`}
+        style={{ aspectRatio: `1 / ${boardAspect}`, maxHeight: '75vh', touchAction: 'none' }}
+      >
         <Stage
-          ref={stageRef}
+          {...stageView.stageProps}
           width={STAGE_WIDTH}
           height={STAGE_HEIGHT}
-          scaleX={scale}
-          scaleY={scale}
-          x={position.x}
-          y={position.y}
-          draggable
-          onWheel={handleWheel}
+          onClick={editing ? handleEditClick : undefined}
+          onTap={editing ? handleEditClick : undefined}
         >
+          <Layer listening={false}>
+            {/* Board outline */}
+            {pattern.board?.shape && (
+              pattern.board.shape === 'square' || pattern.board.shape === 'rectangle' ? (
+                <Rect
+                  x={offsetX}
+                  y={offsetY}
+                  width={bounds.width * fitScale}
+                  height={bounds.height * fitScale}
+                  stroke="#374151"
+                  strokeWidth={1}
+                  dash={[5, 5]}
+                />
+              ) : (
+                <Ellipse
+                  x={offsetX + (bounds.width * fitScale) / 2}
+                  y={offsetY + (bounds.height * fitScale) / 2}
+                  radiusX={(bounds.width * fitScale) / 2}
+                  radiusY={(bounds.height * fitScale) / 2}
+                  stroke="#374151"
+                  strokeWidth={1}
+                  dash={[5, 5]}
+                />
+              )
+            )}
+          </Layer>
+
+          {/* String lines, drawn into a single batched buffer */}
+          <StringLayer
+            nails={scaledNails}
+            strings={strings}
+            threads={threads}
+            hiddenLayers={hiddenLayers}
+            visibleCount={visibleCount}
+            width={STAGE_WIDTH}
+            height={STAGE_HEIGHT}
+            scale={scale}
+            pixelRatio={pixelRatio}
+          />
+
           <Layer>
-            {/* String lines */}
-            {visibleLines.map((linePoints, index) => (
-              <Line
-                key={index}
-                points={linePoints}
-                stroke="#fbbf24"
-                strokeWidth={0.8}
-                opacity={0.7}
-              />
-            ))}
-            
             {/* Nails */}
-            {showNails && scaledNails.map((nail, index) => (
+            {(showNails || stringCount === 0 || (editing && edit.tool === 'nails')) && scaledNails.map((nail, index) => (
               <Group key={index}>
                 <Circle
                   x={nail.x}
                   y={nail.y}
-                  radius={3}
+                  radius={editing && edit.tool === 'nails' ? 5 : 3}
                   fill="#ef4444"
                   stroke="#dc2626"
                   strokeWidth={1}
+                  draggable={editing && edit.tool === 'nails'}
+                  onDragEnd={handleNailDragEnd(index)}
                 />
                 {showNailNumbers && (
                   <Text
@@ -278,18 +535,78 @@ export default function StringArtVisualizer({ nails, lines, canvasSize = 600 }:
               </Group>
             ))}
           </Layer>
+
+          {/* Selected string while editing */}
+          {editing && selectedString && scaledNails[selectedString.from] && scaledNails[selectedString.to] && (
+            <Layer listening={false}>
+              <Line
+                points={[
+                  scaledNails[selectedString.from].x,
+                  scaledNails[selectedString.from].y,
+                  scaledNails[selectedString.to].x,
+                  scaledNails[selectedString.to].y,
+                ]}
+                stroke="#f472b6"
+                strokeWidth={3}
+              />
+              <Circle x={scaledNails[selectedString.to].x} y={scaledNails[selectedString.to].y} radius={6} stroke="#f472b6" strokeWidth={2} />
+            </Layer>
+          )}
+
+          {/* Next string and its nails while building */}
+          {buildMode.active && buildFrom !== null && buildTo !== null && scaledNails[buildFrom] && scaledNails[buildTo] && (
+            <Layer listening={false}>
+              <Line
+                points={[
+                  scaledNails[buildFrom].x,
+                  scaledNails[buildFrom].y,
+                  scaledNails[buildTo].x,
+                  scaledNails[buildTo].y,
+                ]}
+                stroke="#22d3ee"
+                strokeWidth={2}
+                dash={[6, 4]}
+              />
+              <Circle x={scaledNails[buildFrom].x} y={scaledNails[buildFrom].y} radius={8} stroke="#67e8f9" strokeWidth={3} />
+              <Circle x={scaledNails[buildTo].x} y={scaledNails[buildTo].y} radius={8} stroke="#f472b6" strokeWidth={3} />
+            </Layer>
+          )}
         </Stage>
         
         {/* Instructions */}
-        <div className="absolute bottom-4 left-4 text-white text-xs bg-black bg-opacity-75 p-3 rounded">
-          <div>• Use controls to animate the string art</div>
-          <div>• Adjust speed with the slider</div>
-          <div>• Toggle nails and numbers visibility</div>
-          <div className="mt-2 text-yellow-400">
-            Total Nails: {nails.length}
+        {!sync && (
+          <div className="absolute bottom-4 left-4 text-white text-xs bg-black bg-opacity-75 p-3 rounded">
+            <div>• Use controls to animate the string art</div>
+            <div>• Adjust speed with the slider</div>
+            <div>• Toggle nails and numbers visibility</div>
+            <div className="mt-2 text-yellow-400">
+              Total Nails: {nails.length}
+            </div>
           </div>
-        </div>
+        )}
         
+        <ViewControls
+          scale={scale}
+          onZoom={stageView.zoomAtCenter}
+          onFit={fitToBoard}
+          onReset={stageView.resetView}
+        />
+
+        {zoomedIn && minimapImage && (
+          <Minimap
+            image={minimapImage}
+            width={MINIMAP_WIDTH}
+            height={Math.round(STAGE_HEIGHT * minimapScale)}
+            viewport={{
+              x: (-position.x / scale) * minimapScale,
+              y: (-position.y / scale) * minimapScale,
+              width: (STAGE_WIDTH / scale) * minimapScale,
+              height: (STAGE_HEIGHT / scale) * minimapScale,
+            }}
+            onNavigate={(x, y) => stageView.centerOn({ x: x / minimapScale, y: y / minimapScale })}
+          />
+        )}
+
         {/* Progress indicator */}
         {isAnimating && (
           <div className="absolute top-4 right-4">
@@ -302,6 +619,50 @@ export default function StringArtVisualizer({ nails, lines, canvasSize = 600 }:
           </div>
         )}
       </div>
+
+      {/* Estimates follow the strings currently on the board */}
+      {showStats && (
+        <StatsPanel
+          pattern={pattern}
+          strings={strings}
+          threads={threads}
+          multiColor={multiColor}
+          drawnStrings={Math.max(0, Math.min(visibleCount - 1, stringCount))}
+        />
+      )}
+
+      {showComparison && sourceImage && (
+        <ComparisonDialog
+          pattern={pattern}
+          sourceImage={sourceImage}
+          parameters={parameters}
+          initialLines={currentLineIndex > 0 ? Math.max(0, currentLineIndex - 1) : stringCount}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showImageExport && (
+        <ImageExportDialog
+          pattern={pattern}
+          fileName={`string-art-${patternId}`}
+          stageWidth={STAGE_WIDTH}
+          stageHeight={STAGE_HEIGHT}
+          patternToStage={{ scale: fitScale, x: offsetX, y: offsetY }}
+          view={{ scale, x: position.x, y: position.y }}
+          currentLineIndex={visibleCount}
+          hiddenLayers={hiddenLayers}
+          initialStyle={{ showNails, showNumbers: showNailNumbers }}
+          onClose={() => setShowImageExport(false)}
+        />
+      )}
+
+      {showTemplate && (
+        <DrillTemplateDialog
+          pattern={pattern}
+          fileName={`string-art-${patternId}`}
+          onClose={() => setShowTemplate(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
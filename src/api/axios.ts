@@ -1,7 +1,88 @@
 import axios from 'axios';
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    retries?: number;       // Retries for transient failures; 0 turns them off. Only reads retry by default
+    retryAttempt?: number;  // Set by the retry interceptor
+  }
+}
+
+export interface RetryNotice {
+  attempt: number;
+  retries: number;
+  delayMs: number;
+  url: string | undefined;
+}
+
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+// Statuses worth asking again for: the server is busy or a proxy gave up on it
+const TRANSIENT_STATUSES = [408, 429, 502, 503, 504];
+// A POST that timed out may still be running on the server, so sending it again could start the work twice
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_URL,
 });
 
-export default api;
\ No newline at end of file
+const retryListeners = new Set<(notice: RetryNotice) => void>();
+
+// Lets the UI tell the user why a request is taking longer than usual
+export function onRetry(listener: (notice: RetryNotice) => void): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+// Failures that may go away on their own, so the request can be sent again as is
+export function isTransientError(error: unknown): boolean {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+  if (!error.response) return true;
+  return TRANSIENT_STATUSES.includes(error.response.status);
+}
+
+// Exponential backoff with jitter, unless the server says how long to wait
+function retryDelay(attempt: number, retryAfter: unknown): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter !== undefined && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_DELAY_MS);
+  }
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+const waitForRetry = (ms: number, signal: AbortSignal | undefined) =>
+  new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+api.interceptors.response.use(undefined, async (error: unknown) => {
+  if (!axios.isAxiosError(error) || !error.config || !isTransientError(error)) {
+    throw error;
+  }
+  const config = error.config;
+  const retries = config.retries ?? (IDEMPOTENT_METHODS.includes(config.method?.toLowerCase() ?? 'get') ? DEFAULT_RETRIES : 0);
+  const attempt = (config.retryAttempt ?? 0) + 1;
+  // Every signal handed to api is a DOM AbortSignal
+  const signal = config.signal as AbortSignal | undefined;
+  if (attempt > retries || signal?.aborted) {
+    throw error;
+  }
+
+  const delayMs = retryDelay(attempt, error.response?.headers['retry-after']);
+  retryListeners.forEach(listener => listener({ attempt, retries, delayMs, url: config.url }));
+  await waitForRetry(delayMs, signal);
+  return api.request({ ...config, retryAttempt: attempt });
+});
+
+export default api;
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { GenerationJobError, GenerationTimeoutError } from './jobs';
+import { TransformResponseError } from './transform';
+import { PatternFormatError } from '../lib/pattern';
+import { isRecord } from '../lib/patternValidation';
+
+// What went wrong, as far as the user needs to know
+export type ErrorCategory =
+  | 'network'     // The request never got an answer
+  | 'timeout'
+  | 'validation'  // The server refused the image or parameters (400, 422)
+  | 'client'      // Any other 4xx
+  | 'server'      // 5xx, failed jobs and unusable responses
+  | 'image'       // The browser could not decode or encode the image
+  | 'file-size'
+  | 'unknown';
+
+export interface DescribedError {
+  category: ErrorCategory;
+  title: string;
+  message: string;
+}
+
+// Uploads past this are refused before reading them; phone photos stay well below it
+export const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+
+export class ImageDecodeError extends Error {
+  constructor(message = 'The image could not be read. It may be corrupt or in an unsupported format.') {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+export class FileTooLargeError extends Error {
+  constructor(size: number, limit = MAX_IMAGE_BYTES) {
+    super(`The file is ${(size / 1024 / 1024).toFixed(1)} MB; images up to ${limit / 1024 / 1024} MB are supported.`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+export const isCancellation = (error: unknown) =>
+  axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+
+// Servers answer errors as { error }, { message } or { detail }
+function serverMessage(data: unknown): string | null {
+  if (typeof data === 'string' && data.trim() !== '' && data.length < 300) return data.trim();
+  if (!isRecord(data)) return null;
+  for (const key of ['error', 'message', 'detail']) {
+    const value = data[key];
+    if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  }
+  return null;
+}
+
+/**
+ * Sorts any error from the upload and generation flow into a category
+ * with a title and message fit to show the user.
+ */
+export function describeError(error: unknown): DescribedError {
+  if (error instanceof FileTooLargeError) {
+    return { category: 'file-size', title: 'File too large', message: error.message };
+  }
+  if (error instanceof ImageDecodeError) {
+    return { category: 'image', title: 'Unreadable image', message: error.message };
+  }
+  if (error instanceof GenerationTimeoutError) {
+    return { category: 'timeout', title: 'Generation timed out', message: `${error.message}. Try fewer lines or try again later.` };
+  }
+  if (error instanceof GenerationJobError) {
+    return { category: 'server', title: 'Generation failed', message: error.message };
+  }
+  if (error instanceof TransformResponseError) {
+    return { category: 'server', title: 'Unexpected server response', message: error.message };
+  }
+  if (error instanceof PatternFormatError) {
+    return { category: 'validation', title: 'Invalid pattern data', message: error.message };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+        ? { category: 'timeout', title: 'Request timed out', message: 'The server took too long to answer. Please try again.' }
+        : { category: 'network', title: 'Cannot reach the server', message: 'Check your connection, or switch to local generation.' };
+    }
+    const detail = serverMessage(error.response?.data);
+    if (status === 413) {
+      return { category: 'file-size', title: 'Image too large for the server', message: detail ?? 'Crop a smaller area or use a smaller image.' };
+    }
+    if (status === 400 || status === 422) {
+      return { category: 'validation', title: 'Request rejected', message: detail ?? 'The server did not accept the image or parameters.' };
+    }
+    if (status < 500) {
+      return { category: 'client', title: `Request failed (${status})`, message: detail ?? 'The server refused the request.' };
+    }
+    return { category: 'server', title: `Server error (${status})`, message: detail ?? 'The server ran into a problem. Please try again.' };
+  }
+
+  return { category: 'unknown', title: 'Something went wrong', message: 'Please try again.' };
+}
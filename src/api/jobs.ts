@@ -0,0 +1,227 @@
+import axios from 'axios';
+import api from './axios';
+import { TransformResponseError, parseTransformResponse, requestTransform, toTransformFormData } from './transform';
+import type { TransformRequest, TransformResult } from './transform';
+import type { StringArtPattern } from '../lib/pattern';
+import { isFiniteNumber, isRecord, parsePatternData } from '../lib/patternValidation';
+
+/*
+ * Job-based generation:
+ *   POST   /jobs             same multipart body as /transform, answers { jobId }
+ *   GET    /jobs/:id         current JobStatus
+ *   GET    /jobs/:id/events  server-sent events ("progress", "done", "failed", "cancelled") carrying a JobStatus
+ *   DELETE /jobs/:id         cancels the job
+ * Servers that answer 404 or 405 on POST /jobs get the blocking /transform call instead.
+ */
+
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  state: JobState;
+  completed: number;
+  total: number;
+  partial: StringArtPattern | null;  // Strings found so far, when the server sends them
+}
+
+export interface GenerationJobConfig {
+  onProgress?: (progress: JobProgress) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface JobStatus extends JobProgress {
+  result: unknown;       // Same shape as a /transform response once the job is done
+  error: string | null;
+}
+
+export class GenerationTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The server did not finish within ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export class GenerationJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationJobError';
+  }
+}
+
+// Overridable per deployment, since large patterns can take minutes on a busy server
+export const DEFAULT_GENERATION_TIMEOUT_MS = Number(import.meta.env.VITE_GENERATION_TIMEOUT_MS) || 5 * 60 * 1000;
+
+const POLL_INTERVAL_MS = 1000;
+const JOB_STATES: JobState[] = ['queued', 'running', 'done', 'failed', 'cancelled'];
+
+const cancelledError = () => new DOMException('Generation cancelled', 'AbortError');
+
+function parseJobStatus(data: unknown): JobStatus {
+  if (!isRecord(data) || !JOB_STATES.includes(data.status as JobState)) {
+    throw new TransformResponseError('The server sent a malformed job status');
+  }
+
+  // Partial results are a preview only, so anything unusable is skipped rather than fatal
+  let partial: StringArtPattern | null = null;
+  if (isRecord(data.partial)) {
+    const issues: string[] = [];
+    const pattern = parsePatternData(data.partial, 'partial', issues);
+    partial = issues.length === 0 ? pattern : null;
+  }
+
+  return {
+    state: data.status as JobState,
+    completed: isFiniteNumber(data.completed) ? data.completed : 0,
+    total: isFiniteNumber(data.total) ? data.total : 0,
+    partial,
+    result: data.result,
+    error: typeof data.error === 'string' ? data.error : null,
+  };
+}
+
+// Resolves with the final status, throws for failed and cancelled jobs, reports anything else
+function settle(status: JobStatus, onProgress?: GenerationJobConfig['onProgress']): JobStatus | null {
+  switch (status.state) {
+    case 'done':
+      return status;
+    case 'failed':
+      throw new GenerationJobError(status.error ?? 'Generation failed on the server');
+    case 'cancelled':
+      throw new GenerationJobError('The job was cancelled on the server');
+    default:
+      onProgress?.(status);
+      return null;
+  }
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+  });
+
+async function submitJob(request: TransformRequest, signal: AbortSignal): Promise<string | null> {
+  try {
+    const response = await api.post<unknown>('/jobs', toTransformFormData(request), { signal });
+    if (!isRecord(response.data) || typeof response.data.jobId !== 'string') {
+      throw new TransformResponseError('The server did not return a job id');
+    }
+    return response.data.jobId;
+  } catch (error) {
+    if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 405)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function pollJob(jobId: string, signal: AbortSignal, onProgress?: GenerationJobConfig['onProgress']): Promise<JobStatus> {
+  for (;;) {
+    const response = await api.get<unknown>(`/jobs/${encodeURIComponent(jobId)}`, { signal });
+    const final = settle(parseJobStatus(response.data), onProgress);
+    if (final) return final;
+    await wait(POLL_INTERVAL_MS, signal);
+  }
+}
+
+/**
+ * Follows a job over server-sent events. Resolves with null when the stream
+ * cannot be used (no EventSource, proxy dropping the connection, ...) so the
+ * caller can fall back to polling.
+ */
+function streamJob(jobId: string, signal: AbortSignal, onProgress?: GenerationJobConfig['onProgress']): Promise<JobStatus | null> {
+  if (typeof EventSource === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(api.getUri({ url: `/jobs/${encodeURIComponent(jobId)}/events` }));
+
+    const close = () => {
+      source.close();
+      signal.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      close();
+      reject(cancelledError());
+    };
+
+    const handleMessage = (event: MessageEvent<string>) => {
+      try {
+        const final = settle(parseJobStatus(JSON.parse(event.data)), onProgress);
+        if (final) {
+          close();
+          resolve(final);
+        }
+      } catch (error) {
+        close();
+        reject(error);
+      }
+    };
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+    for (const type of ['message', 'progress', 'done', 'failed', 'cancelled']) {
+      source.addEventListener(type, handleMessage as EventListener);
+    }
+    // EventSource would keep reconnecting on its own; polling is more predictable
+    source.onerror = () => {
+      close();
+      resolve(null);
+    };
+  });
+}
+
+/**
+ * Runs a generation as a server-side job, reporting progress and partial
+ * patterns as they arrive. Aborting `signal` or running past `timeoutMs`
+ * cancels the job on the server (best effort) and rejects with an
+ * AbortError or a GenerationTimeoutError respectively.
+ */
+export async function runGenerationJob(request: TransformRequest, config: GenerationJobConfig = {}): Promise<TransformResult> {
+  const { onProgress, signal, timeoutMs = DEFAULT_GENERATION_TIMEOUT_MS } = config;
+  if (signal?.aborted) {
+    throw cancelledError();
+  }
+
+  // One internal signal for both the caller's cancellation and the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let jobId: string | null = null;
+  try {
+    jobId = await submitJob(request, controller.signal);
+    if (jobId === null) {
+      return await requestTransform(request, controller.signal);
+    }
+    const status = await streamJob(jobId, controller.signal, onProgress)
+      ?? await pollJob(jobId, controller.signal, onProgress);
+    return parseTransformResponse(status.result);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      if (jobId !== null) {
+        api.delete(`/jobs/${encodeURIComponent(jobId)}`).catch(cancelError => {
+          console.error('Error cancelling generation job:', cancelError);
+        });
+      }
+      throw timedOut ? new GenerationTimeoutError(timeoutMs) : cancelledError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
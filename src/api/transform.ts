@@ -0,0 +1,112 @@
+import api from './axios';
+import type { NailPositions } from '../lib/nailLayout';
+import { appendParameters } from '../lib/parameters';
+import type { GenerationParameters } from '../lib/parameters';
+import { EMPTY_PATTERN, PatternFormatError } from '../lib/pattern';
+import type { Board, Nail, StringArtPattern } from '../lib/pattern';
+import { isRecord, parseParameters, parsePatternData, summarizeIssues } from '../lib/patternValidation';
+
+// Wire format of POST /transform
+export interface TransformRequest {
+  image: Blob;
+  parameters: GenerationParameters;
+  // Custom nails as JSON in the `nailLayout` field; their board spans the whole image
+  layout?: NailPositions | null;
+}
+
+export interface TransformResponse {
+  base64Image: string;
+  stringArt: {
+    nails: Nail[];
+    // Servers report either a nail sequence or a list of [from, to] pairs
+    lines: number[] | [number, number][];
+    // Coordinate space of the nails; older servers omit it
+    board?: Board;
+    // Multi-color results send one sequence per thread instead of lines
+    layers?: {
+      name?: string;
+      color: string;
+      opacity?: number;
+      lines: number[] | [number, number][];
+    }[];
+  };
+  parameters?: GenerationParameters;
+}
+
+// What the rest of the app works with once a response has been checked
+export interface TransformResult {
+  image: string;  // Data URL of the processed image
+  pattern: StringArtPattern;
+  parameters: GenerationParameters | null;
+}
+
+export class TransformResponseError extends PatternFormatError {
+  constructor(message: string, issues: string[] = []) {
+    super(message, issues);
+    this.name = 'TransformResponseError';
+  }
+}
+
+// Accepts both full data URLs and bare base64 payloads
+function toDataUrl(base64: string): string {
+  if (base64.startsWith('data:image/')) return base64;
+  const mime = base64.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+  return `data:${mime};base64,${base64}`;
+}
+
+/**
+ * Checks an untrusted /transform payload and normalizes it into the
+ * internal pattern model. Throws a TransformResponseError listing what
+ * is wrong instead of letting the visualizer render garbage.
+ */
+export function parseTransformResponse(data: unknown): TransformResult {
+  const issues: string[] = [];
+
+  if (!isRecord(data)) {
+    throw new TransformResponseError('The server returned an empty or malformed response');
+  }
+
+  if (typeof data.base64Image !== 'string' || data.base64Image.trim() === '') {
+    issues.push('base64Image is missing');
+  }
+
+  let pattern: StringArtPattern = EMPTY_PATTERN;
+  if (!isRecord(data.stringArt)) {
+    issues.push('stringArt is missing');
+  } else {
+    pattern = parsePatternData(data.stringArt, 'stringArt', issues);
+  }
+
+  if (issues.length > 0) {
+    throw new TransformResponseError(
+      `The server response does not match the expected format: ${summarizeIssues(issues)}`,
+      issues,
+    );
+  }
+
+  // The echoed parameters are informative only, so a bad echo is dropped rather than fatal
+  const parameters = parseParameters(data.parameters);
+
+  return {
+    image: toDataUrl(data.base64Image as string),
+    pattern,
+    parameters,
+  };
+}
+
+// Multipart body shared by /transform and /jobs
+export function toTransformFormData({ image, parameters, layout }: TransformRequest): FormData {
+  const formData = new FormData();
+  formData.append('image', image, 'cropped-image.jpg');
+  appendParameters(formData, parameters);
+  if (layout) {
+    formData.append('nailLayout', JSON.stringify(layout));
+  }
+  return formData;
+}
+
+// Blocking generation, kept for servers without the /jobs endpoints
+export async function requestTransform(request: TransformRequest, signal?: AbortSignal): Promise<TransformResult> {
+  const response = await api.post<unknown>('/transform', toTransformFormData(request), { signal });
+  return parseTransformResponse(response.data);
+}
@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, Crop, Download, FolderOpen, Play, Scissors, SlidersHorizontal, Trash2, Upload, X } from 'lucide-react';
+import Cropper from 'react-easy-crop';
+import { describeError } from '../api/errors';
+import useBatchQueue from '../hooks/useBatchQueue';
+import { BATCH_CONCURRENCY, DEFAULT_CONCURRENCY, isPending, isSubmittable, toBatchZip } from '../lib/batch';
+import type { BatchItem, BatchStatus } from '../lib/batch';
+import { centerCrop } from '../lib/cropImage';
+import type { CropArea } from '../lib/cropImage';
+import { downloadFile } from '../lib/exporters';
+import { withLayout } from '../lib/nailLayout';
+import type { NailPositions } from '../lib/nailLayout';
+import { boardAspect, hasErrors, validateParameters } from '../lib/parameters';
+import type { GenerationParameters } from '../lib/parameters';
+import { countStrings } from '../lib/pattern';
+import type { PreprocessSettings } from '../lib/preprocess';
+import ParameterPanel from './ParameterPanel';
+
+interface BatchDialogProps {
+  initialFiles: File[];                   // Images to queue right away, e.g. dropped on the board
+  parameters: GenerationParameters;       // Shared parameters from the left panel
+  parametersValid: boolean;
+  layout: NailPositions | null;           // Custom nail layout, used by every item
+  preprocess: PreprocessSettings;         // Shared image adjustments
+  online: boolean;
+  onOpen: (item: BatchItem) => void;      // Loads a finished item into the visualizer
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  crop: 'Needs crop',
+  ready: 'Ready',
+  queued: 'Queued',
+  running: 'Generating...',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<BatchStatus, string> = {
+  crop: 'text-yellow-400',
+  ready: 'text-green-400',
+  queued: 'text-green-400 opacity-60',
+  running: 'text-green-400 animate-pulse',
+  done: 'text-green-400 font-bold',
+  failed: 'text-red-400',
+  cancelled: 'text-green-400 opacity-40',
+};
+
+const inputClass = 'w-full bg-black border border-green-400 border-opacity-50 rounded px-2 py-1 text-sm text-green-400 focus:border-opacity-100 disabled:opacity-50';
+const buttonClass = 'border border-green-400 border-opacity-50 rounded-lg px-3 py-2 text-sm flex items-center justify-center space-x-2 hover:border-opacity-100 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed';
+const iconButtonClass = 'p-1 opacity-70 hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed';
+
+export default function BatchDialog({
+  initialFiles,
+  parameters,
+  parametersValid,
+  layout,
+  preprocess,
+  online,
+  onOpen,
+  onClose,
+}: BatchDialogProps) {
+  const queue = useBatchQueue();
+  const { items, addFiles } = queue;
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [croppingId, setCroppingId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [crop, setCrop] = useState({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+  // Tagged with the item, since the cropper reports the area of the previous image until the next one loads
+  const [cropPixels, setCropPixels] = useState<{ id: number; area: CropArea } | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const initialFilesRef = useRef(initialFiles);
+
+  const queueFiles = useCallback(async (files: File[]) => {
+    const errors = await addFiles(files);
+    setRejected(current => [...current, ...errors.map(error => describeError(error).message)]);
+  }, [addFiles]);
+
+  // Files handed over on opening are queued once, even when effects run twice in development
+  useEffect(() => {
+    const files = initialFilesRef.current;
+    initialFilesRef.current = [];
+    if (files.length > 0) queueFiles(files);
+  }, [queueFiles]);
+
+  // Parameters an item is generated with; the custom layout overrides the nails and board either way
+  const withBoard = (own: GenerationParameters) => (layout ? withLayout(own, layout) : own);
+  const shared = withBoard(parameters);
+  const effectiveParameters = (item: BatchItem) => (item.parameters ? withBoard(item.parameters) : shared);
+  const itemValid = (item: BatchItem) => item.parameters === null
+    ? parametersValid
+    : !hasErrors(validateParameters(effectiveParameters(item)));
+
+  // An item picked for re-cropping comes first, then the next one that still needs a crop
+  const cropping = items.find(item => item.id === croppingId && !isPending(item))
+    ?? items.find(item => item.status === 'crop')
+    ?? null;
+  const cropAspect = cropping ? boardAspect(effectiveParameters(cropping)) : 1;
+  const cropArea = cropping && cropPixels?.id === cropping.id ? cropPixels.area : null;
+
+  const beginCrop = (item: BatchItem) => {
+    setCroppingId(item.id);
+    setCrop(item.crop?.position ?? { x: 0, y: 0 });
+    setZoom(item.crop?.zoom ?? 1);
+  };
+
+  const confirmCrop = () => {
+    if (!cropping || !cropArea) return;
+    queue.setCrop(cropping.id, { position: crop, zoom, areaPixels: cropArea });
+    setCroppingId(null);
+    setCrop({ x: 0, y: 0 });
+    setZoom(1);
+  };
+
+  // Zoom 1 at the origin is exactly the centered crop, so the cropper shows the same area when reopened
+  const cropAllCentered = () => {
+    queue.cropAllCentered(item => ({
+      position: { x: 0, y: 0 },
+      zoom: 1,
+      areaPixels: centerCrop(item.width, item.height, boardAspect(effectiveParameters(item))),
+    }));
+    setCroppingId(null);
+  };
+
+  const changeItemParameters = (item: BatchItem, next: GenerationParameters | null) => {
+    const before = boardAspect(effectiveParameters(item));
+    const after = boardAspect(effectiveParameters({ ...item, parameters: next }));
+    queue.setParameters(item.id, next, item.crop !== null && before !== after);
+  };
+
+  const submittable = items.filter(isSubmittable);
+  const running = items.some(isPending);
+  const finished = items.filter(item => item.result !== null);
+  const waiting = items.filter(item => item.status === 'crop').length;
+  const blocked = submittable.some(item => !itemValid(item));
+
+  const start = () => {
+    setEditingId(null);
+    queue.start({ parameters, layout, preprocess, concurrency });
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    setZipError(null);
+    try {
+      const zip = await toBatchZip(finished);
+      downloadFile(zip, `string-art-batch-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+    } catch (error) {
+      console.error('Error creating batch zip:', error);
+      setZipError(error instanceof Error ? error.message : 'Could not create the zip file');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (running && !window.confirm('Stop the batch? Images still generating will be cancelled.')) return;
+    queue.cancelAll();
+    onClose();
+  };
+
+  // The visualizer sits behind the dialog, so opening a result closes the batch
+  const openItem = (item: BatchItem) => {
+    if (running && !window.confirm('Open this pattern and stop the batch? Images still generating will be cancelled.')) return;
+    queue.cancelAll();
+    onOpen(item);
+    onClose();
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset so picking the same files again still triggers a change
+    event.target.value = '';
+    if (files.length > 0) queueFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    queueFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const editing = items.find(item => item.id === editingId && item.parameters !== null) ?? null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50">
+      <div className="bg-black border border-green-400 border-opacity-50 rounded-lg p-6 max-w-5xl w-full mx-4 max-h-screen overflow-y-auto text-green-400 font-mono space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Batch Generation</h2>
+          <button onClick={handleClose} className="hover:text-red-400 transition-colors duration-200">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {/* Crop queue */}
+          <div className="md:col-span-2 space-y-2">
+            {cropping ? (
+              <>
+                <p className="text-sm opacity-80">
+                  Crop {cropping.name}
+                  {waiting > 1 && <span className="opacity-60"> · {waiting} images waiting</span>}
+                </p>
+                <div className="relative h-80 bg-black rounded-lg overflow-hidden border border-green-400 border-opacity-30">
+                  <Cropper
+                    key={cropping.id}
+                    image={cropping.imageUrl}
+                    crop={crop}
+                    zoom={zoom}
+                    initialCroppedAreaPixels={cropping.crop?.areaPixels}
+                    aspect={cropAspect}
+                    onCropChange={setCrop}
+                    onCropComplete={(_area, pixels) => setCropPixels({ id: cropping.id, area: pixels })}
+                    onZoomChange={setZoom}
+                    style={{ containerStyle: { background: '#000000' } }}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={confirmCrop} disabled={!cropArea} className={buttonClass}>
+                    <Check className="w-4 h-4" />
+                    <span>Confirm Crop</span>
+                  </button>
+                  {waiting > 0 && (
+                    <button onClick={cropAllCentered} className={buttonClass} title="Crop every image still waiting from its center">
+                      <Scissors className="w-4 h-4" />
+                      <span>Center crop for all ({waiting})</span>
+                    </button>
+                  )}
+                  {croppingId !== null && cropping.crop && (
+                    <button onClick={() => setCroppingId(null)} className={buttonClass}>
+                      <X className="w-4 h-4" />
+                      <span>Keep Previous Crop</span>
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <label
+                className={`h-80 border-2 border-dashed rounded-lg flex flex-col items-center justify-center space-y-2 cursor-pointer transition-all duration-300 ${
+                  isDragging ? 'border-green-400 bg-green-400 bg-opacity-10' : 'border-green-400 border-opacity-40 hover:border-opacity-80'
+                }`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+              >
+                <input type="file" accept="image/*" multiple onChange={handleFileSelect} className="hidden" />
+                <Upload className="w-10 h-10" />
+                <p className="text-sm">{items.length > 0 ? 'Every image is cropped' : 'No images yet'}</p>
+                <p className="text-xs opacity-60">Drop images here or click to choose several</p>
+              </label>
+            )}
+          </div>
+
+          {/* Shared settings */}
+          <div className="space-y-3 text-sm">
+            <div className="border border-green-400 border-opacity-30 rounded-lg p-3 space-y-1 text-xs">
+              <p className="opacity-80">Shared parameters</p>
+              <p>{shared.nailCount} nails · {shared.maxLines} lines · weight {shared.lineWeight}</p>
+              <p>
+                skip {shared.minDistance} · {layout ? 'custom layout' : shared.boardShape} · seed {shared.seed ?? 'random'}
+              </p>
+              <p className="opacity-60">Set in the left panel, together with the image adjustments every item gets</p>
+              {!parametersValid && <p className="text-red-400">Fix the shared parameters before generating</p>}
+            </div>
+
+            <label className="block space-y-1">
+              <span className="text-xs opacity-80">Images at a time</span>
+              <input
+                type="number"
+                {...BATCH_CONCURRENCY}
+                step={1}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(BATCH_CONCURRENCY.max, Math.max(BATCH_CONCURRENCY.min, Math.round(Number(e.target.value)) || 1)))}
+                disabled={running}
+                className={inputClass}
+              />
+            </label>
+
+            <label className={`${buttonClass} cursor-pointer`}>
+              <input type="file" accept="image/*" multiple onChange={handleFileSelect} className="hidden" />
+              <Upload className="w-4 h-4" />
+              <span>Add Images</span>
+            </label>
+
+            {rejected.length > 0 && (
+              <div className="text-xs text-red-400 border border-red-400 border-opacity-50 rounded p-2 space-y-1">
+                {rejected.map((message, index) => <p key={index}>{message}</p>)}
+                <button onClick={() => setRejected([])} className="underline opacity-80 hover:opacity-100">Dismiss</button>
+              </div>
+            )}
+            {!online && (
+              <p className="text-xs text-yellow-400">Offline: batches are generated on the server, reconnect to start</p>
+            )}
+          </div>
+        </div>
+
+        {/* Items */}
+        {items.length > 0 && (
+          <div className="border border-green-400 border-opacity-30 rounded-lg divide-y divide-green-400 divide-opacity-20">
+            {items.map(item => (
+              <div key={item.id} className="p-2 space-y-2">
+                <div className="flex items-center gap-3 text-sm">
+                  <img src={item.imageUrl} alt="" className="w-10 h-10 object-cover rounded border border-green-400 border-opacity-30" />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{item.name}</p>
+                    <p className={`text-xs ${STATUS_CLASSES[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                      {item.result && ` · ${countStrings(item.result.pattern)} strings`}
+                      {item.error && ` · ${item.error.title}: ${item.error.message}`}
+                      {item.parameters !== null && !itemValid(item) && ' · fix its parameters'}
+                    </p>
+                  </div>
+                  <select
+                    value={item.parameters === null ? 'shared' : 'own'}
+                    onChange={(e) => {
+                      const own = e.target.value === 'own';
+                      changeItemParameters(item, own ? parameters : null);
+                      setEditingId(own ? item.id : null);
+                    }}
+                    disabled={isPending(item)}
+                    className={`${inputClass} w-auto`}
+                  >
+                    <option value="shared">Shared</option>
+                    <option value="own">Own parameters</option>
+                  </select>
+                  <button
+                    onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                    disabled={item.parameters === null || isPending(item)}
+                    className={iconButtonClass}
+                    title="Edit this image's parameters"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => beginCrop(item)}
+                    disabled={isPending(item)}
+                    className={iconButtonClass}
+                    title="Crop again"
+                  >
+                    <Crop className="w-4 h-4" />
+                  </button>
+                  {item.result ? (
+                    <button onClick={() => openItem(item)} className={iconButtonClass} title="Open in the visualizer and save as a project">
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                  ) : isPending(item) ? (
+                    <button onClick={() => queue.cancel(item.id)} className={`${iconButtonClass} hover:text-red-400`} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : null}
+                  <button
+                    onClick={() => queue.remove(item.id)}
+                    className={`${iconButtonClass} hover:text-red-400`}
+                    title="Remove from the batch"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {editing?.id === item.id && item.parameters !== null && !isPending(item) && (
+                  <div className="border border-green-400 border-opacity-30 rounded-lg p-3">
+                    <ParameterPanel
+                      parameters={effectiveParameters(item)}
+                      errors={validateParameters(effectiveParameters(item))}
+                      onChange={(next) => changeItemParameters(item, next)}
+                      layoutActive={layout !== null}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {zipError && <p className="text-sm text-red-400">{zipError}</p>}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={start}
+            disabled={running || submittable.length === 0 || blocked || !online}
+            className={`${buttonClass} flex-1 bg-green-400 bg-opacity-20 border-green-400 font-medium`}
+          >
+            <Play className="w-4 h-4" />
+            <span>Generate {submittable.length} {submittable.length === 1 ? 'image' : 'images'}</span>
+          </button>
+          {running && (
+            <button onClick={queue.cancelAll} className={`${buttonClass} hover:text-red-400`}>
+              <X className="w-4 h-4" />
+              <span>Cancel All</span>
+            </button>
+          )}
+          <button onClick={downloadZip} disabled={finished.length === 0 || isZipping} className={`${buttonClass} flex-1`}>
+            <Download className="w-4 h-4" />
+            <span>{isZipping ? 'Packing...' : `Download ${finished.length} as zip`}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
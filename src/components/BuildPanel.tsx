@@ -0,0 +1,89 @@
+import { ArrowRight, RotateCcw, Undo2, X } from 'lucide-react';
+import type { ThreadLayer } from '../lib/pattern';
+
+interface BuildPanelProps {
+  step: number;          // Strings already wound
+  total: number;         // Strings in the pattern
+  from: number | null;   // Nail the next string starts at
+  to: number | null;     // Nail the next string ends at
+  thread: ThreadLayer | null;  // Thread of the next string, for multi-color patterns
+  onNext: () => void;
+  onUndo: () => void;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+export default function BuildPanel({ step, total, from, to, thread, onNext, onUndo, onRestart, onExit }: BuildPanelProps) {
+  const finished = from === null || to === null;
+  const progress = total > 0 ? ((step / total) * 100).toFixed(1) : 0;
+
+  return (
+    <div className="p-4 bg-gray-800 border-b border-gray-700 text-white space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          Build mode · String {Math.min(step + 1, total)} of {total} ({progress}% done)
+        </div>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Exit
+        </button>
+      </div>
+
+      {thread && !finished && (
+        <div className="flex items-center justify-center gap-2 text-lg">
+          <span className="w-5 h-5 rounded-full border border-gray-500" style={{ backgroundColor: thread.color }} />
+          {thread.name} thread
+        </div>
+      )}
+
+      {finished ? (
+        <div className="text-center text-4xl font-bold text-green-400 py-4">All strings done!</div>
+      ) : (
+        <div className="flex items-center justify-center gap-6 py-2 font-mono">
+          <span className="text-7xl font-bold text-cyan-300">{from}</span>
+          <ArrowRight className="w-12 h-12 text-gray-400" />
+          <span className="text-7xl font-bold text-pink-400">{to}</span>
+        </div>
+      )}
+
+      <div className="h-2 bg-gray-700 rounded overflow-hidden">
+        <div className="h-full bg-cyan-400 transition-all duration-200" style={{ width: `${progress}%` }} />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={step === 0}
+            className="flex items-center gap-1 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button
+            onClick={onRestart}
+            disabled={step === 0}
+            className="flex items-center gap-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Restart
+          </button>
+        </div>
+        <div className="text-xs text-gray-400">
+          Space / → / PageDown: next · Backspace / ← / PageUp: undo
+        </div>
+        <button
+          onClick={onNext}
+          disabled={finished}
+          className="flex items-center gap-1 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+        >
+          Next string
+          <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
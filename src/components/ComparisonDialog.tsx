@@ -0,0 +1,267 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { DEFAULT_PARAMETERS } from '../lib/parameters';
+import type { GenerationParameters } from '../lib/parameters';
+import { getPatternBounds } from '../lib/pattern';
+import type { StringArtPattern } from '../lib/pattern';
+import {
+  ANALYSIS_SIZE,
+  createStringRenderer,
+  differenceHeatmap,
+  loadDarknessImage,
+  measure,
+  qualityCurve,
+  sizeFor,
+} from '../lib/quality';
+import type { DarknessImage, QualitySample } from '../lib/quality';
+import { DEFAULT_RENDER_STYLE, fitTransform, renderToCanvas } from '../lib/renderers';
+
+interface ComparisonDialogProps {
+  pattern: StringArtPattern;
+  sourceImage: string;                       // Processed image the pattern was generated from
+  parameters: GenerationParameters | null;   // Line weight drives the error model
+  initialLines: number;
+  onClose: () => void;
+}
+
+type ComparisonMode = 'side' | 'overlay' | 'difference';
+
+// Long side of the rendered preview
+const PREVIEW_SIZE = 600;
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 120;
+
+const MODES: { value: ComparisonMode; label: string }[] = [
+  { value: 'side', label: 'Side by side' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'difference', label: 'Difference' },
+];
+
+const heatmapUrl = (source: DarknessImage, render: DarknessImage) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')?.putImageData(differenceHeatmap(source, render), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const toPolyline = (curve: QualitySample[], total: number, value: (sample: QualitySample) => number) =>
+  curve.map(sample => `${(sample.lines / Math.max(total, 1)) * CHART_WIDTH},${CHART_HEIGHT - value(sample) * CHART_HEIGHT}`).join(' ');
+
+export default function ComparisonDialog({ pattern, sourceImage, parameters, initialLines, onClose }: ComparisonDialogProps) {
+  const bounds = useMemo(() => getPatternBounds(pattern), [pattern]);
+  const analysis = useMemo(() => sizeFor(ANALYSIS_SIZE, bounds.width, bounds.height), [bounds]);
+  const preview = useMemo(() => sizeFor(PREVIEW_SIZE, bounds.width, bounds.height), [bounds]);
+  const lineWeight = parameters?.lineWeight ?? DEFAULT_PARAMETERS.lineWeight;
+
+  const [mode, setMode] = useState<ComparisonMode>('side');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  const [lines, setLines] = useState(initialLines);
+  const [source, setSource] = useState<DarknessImage | null>(null);
+  const [curve, setCurve] = useState<QualitySample[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const shownLines = useDeferredValue(lines);
+
+  // Load the source at the analysis size and sweep the error over the line count
+  useEffect(() => {
+    let cancelled = false;
+    loadDarknessImage(sourceImage, analysis.width, analysis.height)
+      .then(image => {
+        if (cancelled) return;
+        setSource(image);
+        setCurve(qualityCurve(pattern, image, lineWeight));
+      })
+      .catch(loadError => {
+        console.error('Error comparing with source image:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Comparison failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pattern, sourceImage, analysis, lineWeight]);
+
+  const current = useMemo(() => {
+    if (!source) return null;
+    const renderer = createStringRenderer(pattern, source.width, source.height, lineWeight);
+    renderer.advanceTo(shownLines);
+    return {
+      sample: measure(source, renderer.image, shownLines),
+      heatmap: heatmapUrl(source, renderer.image),
+    };
+  }, [pattern, source, lineWeight, shownLines]);
+
+  // Dark thread on a white board so the render reads like the grayscale source. The opacity
+  // follows the line weight, scaled up because the preview's lines are thinner than the solver's pixels
+  const renderUrl = useMemo(() => renderToCanvas(pattern, {
+    ...DEFAULT_RENDER_STYLE,
+    background: '#ffffff',
+    threadColor: '#000000',
+    threadOpacity: Math.min(1, (lineWeight / 255) * (PREVIEW_SIZE / ANALYSIS_SIZE)),
+    showNails: false,
+    width: preview.width,
+    height: preview.height,
+    patternToStage: fitTransform(bounds, preview.width, preview.height, 0),
+    stageToOutput: { scale: 1, x: 0, y: 0 },
+    visibleCount: shownLines + 1,
+  }).toDataURL('image/png'), [pattern, bounds, preview, lineWeight, shownLines]);
+
+  const total = curve.length > 0 ? curve[curve.length - 1].lines : 0;
+  const best = curve.reduce<QualitySample | null>((min, sample) => (!min || sample.rmse < min.rmse ? sample : min), null);
+  const maxRmse = Math.max(...curve.map(sample => sample.rmse), 0.01);
+
+  const handleChartClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    setLines(Math.round(((e.clientX - box.left) / box.width) * total));
+  };
+
+  const frameStyle = { aspectRatio: `${preview.width} / ${preview.height}` };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-4xl mx-4 text-white space-y-4 max-h-screen overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold">Compare with Source</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`px-4 py-2 rounded-md text-sm transition-colors ${
+                mode === option.value ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          {mode === 'overlay' && (
+            <label className="flex items-center gap-2 text-sm ml-auto">
+              Strings opacity
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={overlayOpacity}
+                onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                className="w-32"
+              />
+              <span className="w-10 text-right">{Math.round(overlayOpacity * 100)}%</span>
+            </label>
+          )}
+        </div>
+
+        {mode === 'side' && (
+          <div className="grid grid-cols-2 gap-4">
+            <img src={sourceImage} alt="Source" className="w-full bg-white rounded" style={frameStyle} />
+            <img src={renderUrl} alt="Strings" className="w-full rounded" style={frameStyle} />
+          </div>
+        )}
+        {mode === 'overlay' && (
+          <div className="relative w-full max-w-xl mx-auto" style={frameStyle}>
+            <img src={sourceImage} alt="Source" className="absolute inset-0 w-full h-full bg-white rounded" />
+            <img
+              src={renderUrl}
+              alt="Strings"
+              className="absolute inset-0 w-full h-full rounded"
+              style={{ opacity: overlayOpacity }}
+            />
+          </div>
+        )}
+        {mode === 'difference' && (
+          <div className="space-y-1">
+            {current ? (
+              <img
+                src={current.heatmap}
+                alt="Difference"
+                className="w-full max-w-xl mx-auto rounded"
+                style={{ ...frameStyle, imageRendering: 'pixelated' }}
+              />
+            ) : (
+              <div className="text-sm text-gray-400">Computing...</div>
+            )}
+            <div className="text-xs text-gray-400 text-center">
+              Red: strings darker than the source · Blue: darkness still missing
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            Strings:
+            <input
+              type="range"
+              min="0"
+              max={total}
+              value={Math.min(lines, total)}
+              onChange={(e) => setLines(parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-24 text-right">{Math.min(lines, total)} / {total}</span>
+          </label>
+
+          {error && <div className="text-sm text-red-400">{error}</div>}
+
+          {current && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span>RMSE: <b>{current.sample.rmse.toFixed(4)}</b></span>
+              <span>SSIM: <b>{current.sample.ssim.toFixed(4)}</b></span>
+              {best && (
+                <button
+                  onClick={() => setLines(best.lines)}
+                  className="text-yellow-400 hover:underline"
+                  title="Jump to the lowest error"
+                >
+                  Lowest error at {best.lines} strings
+                </button>
+              )}
+            </div>
+          )}
+
+          {curve.length > 0 ? (
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-32 bg-gray-900 rounded cursor-crosshair"
+              onClick={handleChartClick}
+            >
+              <polyline
+                points={toPolyline(curve, total, sample => sample.rmse / maxRmse)}
+                fill="none"
+                stroke="#f87171"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+              <polyline
+                points={toPolyline(curve, total, sample => Math.max(0, sample.ssim))}
+                fill="none"
+                stroke="#60a5fa"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+              <line
+                x1={(Math.min(lines, total) / Math.max(total, 1)) * CHART_WIDTH}
+                x2={(Math.min(lines, total) / Math.max(total, 1)) * CHART_WIDTH}
+                y1={0}
+                y2={CHART_HEIGHT}
+                stroke="#fbbf24"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          ) : (
+            !error && <div className="text-sm text-gray-400">Measuring error over the line count...</div>
+          )}
+          <div className="flex gap-4 text-xs text-gray-400">
+            <span><span className="text-red-400">■</span> RMSE (relative, lower is better)</span>
+            <span><span className="text-blue-400">■</span> SSIM (higher is better)</span>
+            <span>Click the chart to jump to a line count</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  DEFAULT_TEMPLATE_OPTIONS,
+  OVERLAP_LIMITS,
+  PAPER_SIZES,
+  buildTemplateSheet,
+  tileSheet,
+  toTemplateHtml,
+  toTemplatePdf,
+  toTemplateSvg,
+} from '../lib/drillTemplate';
+import type { Orientation, PaperSize } from '../lib/drillTemplate';
+import { MEASUREMENT_LIMITS, clampMeasurements, loadMeasurements, saveMeasurements } from '../lib/estimates';
+import { downloadFile, printHtml } from '../lib/exporters';
+import type { StringArtPattern } from '../lib/pattern';
+
+interface DrillTemplateDialogProps {
+  pattern: StringArtPattern;
+  fileName: string;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-2 py-1 bg-gray-700 text-white rounded-md text-sm';
+
+export default function DrillTemplateDialog({ pattern, fileName, onClose }: DrillTemplateDialogProps) {
+  // Starts from the board the material estimates use, and keeps it in sync
+  const [measurements, setMeasurements] = useState(loadMeasurements);
+  const [options, setOptions] = useState(DEFAULT_TEMPLATE_OPTIONS);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateOptions = (patch: Partial<typeof options>) => setOptions(prev => ({ ...prev, ...patch }));
+  const updateMeasurement = (field: 'boardSizeMm' | 'nailDiameterMm', value: number) => {
+    const next = { ...measurements, [field]: value };
+    setMeasurements(next);
+    saveMeasurements(next);
+  };
+
+  const { boardSizeMm, nailDiameterMm } = clampMeasurements(measurements);
+  const overlapMm = Number.isFinite(options.overlapMm)
+    ? Math.min(OVERLAP_LIMITS.max, Math.max(OVERLAP_LIMITS.min, options.overlapMm))
+    : DEFAULT_TEMPLATE_OPTIONS.overlapMm;
+  const pageOptions = { ...options, overlapMm };
+  const sheet = useMemo(
+    () => buildTemplateSheet(pattern, { boardSizeMm, nailDiameterMm, showNumbers: options.showNumbers }),
+    [pattern, boardSizeMm, nailDiameterMm, options.showNumbers],
+  );
+  const pages = tileSheet(sheet, pageOptions);
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (exportError) {
+      console.error('Error exporting drilling template:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed');
+    }
+  };
+
+  const suffix = `template-${Math.round(boardSizeMm)}mm`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-md mx-4 text-white space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold">Drilling Template</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400">
+          Nail positions at true size with crosshairs, to tape onto the board and drill or hammer through.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="text-gray-400">Board size (longest side, mm)</span>
+            <input
+              type="number"
+              {...MEASUREMENT_LIMITS.boardSizeMm}
+              value={Number.isNaN(measurements.boardSizeMm) ? '' : measurements.boardSizeMm}
+              onChange={(e) => updateMeasurement('boardSizeMm', e.target.value === '' ? NaN : Number(e.target.value))}
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Nail diameter (mm)</span>
+            <input
+              type="number"
+              {...MEASUREMENT_LIMITS.nailDiameterMm}
+              value={Number.isNaN(measurements.nailDiameterMm) ? '' : measurements.nailDiameterMm}
+              onChange={(e) => updateMeasurement('nailDiameterMm', e.target.value === '' ? NaN : Number(e.target.value))}
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Paper</span>
+            <select
+              value={options.paper}
+              onChange={(e) => updateOptions({ paper: e.target.value as PaperSize })}
+              className={fieldClass}
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                <option key={paper} value={paper}>{PAPER_SIZES[paper].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Orientation</span>
+            <select
+              value={options.orientation}
+              onChange={(e) => updateOptions({ orientation: e.target.value as Orientation })}
+              className={fieldClass}
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Page overlap (mm)</span>
+            <input
+              type="number"
+              {...OVERLAP_LIMITS}
+              value={Number.isNaN(options.overlapMm) ? '' : options.overlapMm}
+              onChange={(e) => updateOptions({ overlapMm: e.target.value === '' ? NaN : Number(e.target.value) })}
+              className={fieldClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 self-end pb-1">
+            <input
+              type="checkbox"
+              checked={options.showNumbers}
+              onChange={(e) => updateOptions({ showNumbers: e.target.checked })}
+            />
+            Nail numbers
+          </label>
+        </div>
+
+        <div className="text-xs text-gray-400">
+          Board {Math.round(sheet.boardWidthMm)} × {Math.round(sheet.boardHeightMm)} mm · {pattern.nails.length} nails ·{' '}
+          {pages.columns} × {pages.rows} = {pages.tiles.length} {PAPER_SIZES[options.paper].label} page{pages.tiles.length === 1 ? '' : 's'}.
+          Print at 100% and check the 50 mm bar on each page.
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={() => run(() => downloadFile(toTemplateSvg(sheet), `${fileName}-${suffix}.svg`, 'image/svg+xml'))}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+          >
+            Single sheet SVG
+          </button>
+          <button
+            onClick={() => run(() => downloadFile(toTemplatePdf(sheet), `${fileName}-${suffix}.pdf`, 'application/pdf'))}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+          >
+            Single sheet PDF
+          </button>
+          <button
+            onClick={() => run(() => printHtml(toTemplateHtml(sheet, pageOptions)))}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-sm transition-colors"
+          >
+            Print tiled pages
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Move, MousePointer2, Plus, Redo2, Scissors, Shuffle, Trash2, Undo2, X } from 'lucide-react';
+import type { PatternString } from '../lib/pattern';
+
+export type EditTool = 'select' | 'reroute' | 'insert' | 'nails';
+
+interface EditPanelProps {
+  tool: EditTool;
+  selected: number | null;          // Index of the selected string
+  selectedString: PatternString | null;
+  total: number;                    // Strings in the pattern
+  canUndo: boolean;
+  canRedo: boolean;
+  onToolChange: (tool: EditTool) => void;
+  onDelete: () => void;
+  onTruncate: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onExit: () => void;
+}
+
+const TOOLS: { tool: EditTool; label: string; Icon: typeof Move; hint: string }[] = [
+  { tool: 'select', label: 'Select', Icon: MousePointer2, hint: 'Click a string to select it' },
+  { tool: 'reroute', label: 'Re-route', Icon: Shuffle, hint: 'Click the nail the selected string should end at' },
+  { tool: 'insert', label: 'Insert', Icon: Plus, hint: 'Click nails to add moves after the selected string, or at the end' },
+  { tool: 'nails', label: 'Move nails', Icon: Move, hint: 'Drag nails to adjust the layout' },
+];
+
+export default function EditPanel({
+  tool,
+  selected,
+  selectedString,
+  total,
+  canUndo,
+  canRedo,
+  onToolChange,
+  onDelete,
+  onTruncate,
+  onUndo,
+  onRedo,
+  onExit,
+}: EditPanelProps) {
+  const hint = TOOLS.find(option => option.tool === tool)?.hint;
+
+  return (
+    <div className="p-4 bg-gray-800 border-b border-gray-700 text-white space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          Edit mode · {total} strings
+          {selected !== null && selectedString && (
+            <span className="text-pink-400">
+              {' '}· String {selected + 1}: {selectedString.from} → {selectedString.to}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Done
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ tool: option, label, Icon }) => (
+          <button
+            key={option}
+            onClick={() => onToolChange(option)}
+            className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm transition-colors ${
+              tool === option ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={onDelete}
+            disabled={selected === null}
+            className="flex items-center gap-1 px-3 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+            title="Delete the selected string (Delete)"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+          <button
+            onClick={onTruncate}
+            disabled={selected === null || selected >= total - 1}
+            className="flex items-center gap-1 px-3 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+            title="Remove every string after the selected one"
+          >
+            <Scissors className="w-4 h-4" />
+            Truncate after
+          </button>
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-400">
+        {hint}. Deleting a string joins its neighbors so the thread stays continuous.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  downloadFile,
+  printHtml,
+  toCsv,
+  toInstructionHtml,
+  toInstructionText,
+  toPatternJson,
+} from '../lib/exporters';
+import type { GenerationParameters } from '../lib/parameters';
+import type { StringArtPattern } from '../lib/pattern';
+
+interface ExportMenuProps {
+  pattern: StringArtPattern;
+  parameters: GenerationParameters | null;
+  fileName: string;  // Base name without extension
+  onExportImage: () => void;
+  onExportTemplate: () => void;
+}
+
+interface ExportItem {
+  label: string;
+  description: string;
+  run: () => void;
+}
+
+export default function ExportMenu({ pattern, parameters, fileName, onExportImage, onExportTemplate }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const items: ExportItem[] = [
+    {
+      label: 'Instruction sheet (print / PDF)',
+      description: '20 moves per row with checkboxes',
+      run: () => printHtml(toInstructionHtml(pattern)),
+    },
+    {
+      label: 'Instructions (.txt)',
+      description: 'Same sheet as plain text',
+      run: () => downloadFile(toInstructionText(pattern), `${fileName}-instructions.txt`, 'text/plain'),
+    },
+    {
+      label: 'Sequence (.csv)',
+      description: 'step,from,to',
+      run: () => downloadFile(toCsv(pattern), `${fileName}.csv`, 'text/csv'),
+    },
+    {
+      label: 'Pattern (.json)',
+      description: 'Nails, lines, parameters and board size',
+      run: () => downloadFile(toPatternJson(pattern, parameters), `${fileName}.json`, 'application/json'),
+    },
+    {
+      label: 'Image (PNG / SVG)...',
+      description: 'High resolution render of the strings',
+      run: onExportImage,
+    },
+    {
+      label: 'Drilling template (1:1)...',
+      description: 'Nail positions at true size, tiled pages or one sheet',
+      run: onExportTemplate,
+    },
+  ];
+
+  const handleSelect = (item: ExportItem) => {
+    setOpen(false);
+    try {
+      item.run();
+    } catch (error) {
+      console.error('Error exporting pattern:', error);
+      window.alert(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-md shadow-lg z-20 overflow-hidden">
+          {items.map(item => (
+            <button
+              key={item.label}
+              onClick={() => handleSelect(item)}
+              className="block w-full text-left px-4 py-2 hover:bg-gray-700 transition-colors"
+            >
+              <div className="text-sm text-white">{item.label}</div>
+              <div className="text-xs text-gray-400">{item.description}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { X } from 'lucide-react';
+
+interface GenerationProgressProps {
+  label: string;
+  progress: number | null;  // 0-1, or null while the server has not reported any
+  partialStrings: number;   // Strings already shown in the visualizer
+  onCancel: () => void;
+}
+
+export default function GenerationProgress({ label, progress, partialStrings, onCancel }: GenerationProgressProps) {
+  return (
+    <div className="mb-4 border border-green-400 border-opacity-50 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {label}
+          {partialStrings > 0 && <span className="opacity-60"> · {partialStrings} strings so far</span>}
+        </span>
+        <div className="flex items-center space-x-3">
+          {progress !== null && <span>{Math.round(progress * 100)}%</span>}
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-1 border border-green-400 border-opacity-50 rounded px-2 py-1 text-xs hover:border-red-400 hover:text-red-400 transition-all duration-300"
+          >
+            <X className="w-3 h-3" />
+            <span>Stop</span>
+          </button>
+        </div>
+      </div>
+      <div className="h-2 border border-green-400 border-opacity-50 rounded overflow-hidden">
+        <div
+          className={`h-full bg-green-400 transition-all duration-200 ${progress === null ? 'animate-pulse' : ''}`}
+          style={{ width: `${(progress ?? 1) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
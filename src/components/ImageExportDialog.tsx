@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { downloadFile } from '../lib/exporters';
+import { isMultiColor } from '../lib/pattern';
+import type { StringArtPattern } from '../lib/pattern';
+import { DEFAULT_RENDER_STYLE, renderToPng, renderToSvg } from '../lib/renderers';
+import type { RenderStyle, Transform } from '../lib/renderers';
+
+interface ImageExportDialogProps {
+  pattern: StringArtPattern;
+  fileName: string;
+  stageWidth: number;
+  stageHeight: number;
+  patternToStage: Transform;
+  view: Transform;            // Current stage zoom and pan
+  currentLineIndex: number;
+  hiddenLayers: number[];     // Thread layers switched off in the visualizer stay off
+  initialStyle: Partial<RenderStyle>;
+  onClose: () => void;
+}
+
+type ImageFormat = 'png' | 'svg';
+type ExportArea = 'full' | 'view';
+
+const RESOLUTIONS = [1000, 2000, 4000, 6000, 8000];
+
+const fieldClass = 'w-full px-2 py-1 bg-gray-700 text-white rounded-md text-sm';
+
+export default function ImageExportDialog({
+  pattern,
+  fileName,
+  stageWidth,
+  stageHeight,
+  patternToStage,
+  view,
+  currentLineIndex,
+  hiddenLayers,
+  initialStyle,
+  onClose,
+}: ImageExportDialogProps) {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [area, setArea] = useState<ExportArea>('full');
+  const [resolution, setResolution] = useState(4000);
+  const [allStrings, setAllStrings] = useState(true);
+  const [style, setStyle] = useState<RenderStyle>({ ...DEFAULT_RENDER_STYLE, ...initialStyle });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const multiColor = isMultiColor(pattern);
+  const updateStyle = (patch: Partial<RenderStyle>) => setStyle(prev => ({ ...prev, ...patch }));
+
+  // Output keeps the stage's aspect ratio with the chosen long side
+  const upscale = resolution / Math.max(stageWidth, stageHeight);
+  const width = Math.round(stageWidth * upscale);
+  const height = Math.round(stageHeight * upscale);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const options = {
+        ...style,
+        width,
+        height,
+        patternToStage,
+        stageToOutput: area === 'view'
+          ? { scale: view.scale * upscale, x: view.x * upscale, y: view.y * upscale }
+          : { scale: upscale, x: 0, y: 0 },
+        visibleCount: allStrings ? Infinity : currentLineIndex,
+        hiddenLayers,
+      };
+      const suffix = `${area}-${width}x${height}`;
+      if (format === 'png') {
+        const blob = await renderToPng(pattern, options);
+        downloadFile(blob, `${fileName}-${suffix}.png`, 'image/png');
+      } else {
+        downloadFile(renderToSvg(pattern, options), `${fileName}-${suffix}.svg`, 'image/svg+xml');
+      }
+      onClose();
+    } catch (exportError) {
+      console.error('Error exporting image:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-md mx-4 text-white space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold">Export Image</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="text-gray-400">Format</span>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ImageFormat)} className={fieldClass}>
+              <option value="png">PNG</option>
+              <option value="svg">SVG (vector)</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Area</span>
+            <select value={area} onChange={(e) => setArea(e.target.value as ExportArea)} className={fieldClass}>
+              <option value="full">Full pattern</option>
+              <option value="view">Current view</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Resolution (long side)</span>
+            <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className={fieldClass}>
+              {RESOLUTIONS.map(value => (
+                <option key={value} value={value}>{value}px</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Strings</span>
+            <select
+              value={allStrings ? 'all' : 'current'}
+              onChange={(e) => setAllStrings(e.target.value === 'all')}
+              className={fieldClass}
+            >
+              <option value="all">All strings</option>
+              <option value="current">Up to line {currentLineIndex}</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Background</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={style.background ?? '#000000'}
+                onChange={(e) => updateStyle({ background: e.target.value })}
+                disabled={style.background === null}
+                className="w-10 h-8 bg-transparent disabled:opacity-40"
+              />
+              <label className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={style.background === null}
+                  onChange={(e) => updateStyle({ background: e.target.checked ? null : DEFAULT_RENDER_STYLE.background })}
+                />
+                Transparent
+              </label>
+            </div>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Thread</span>
+            <div className="flex items-center gap-2">
+              {/* Multi-color patterns keep the colors of their thread layers */}
+              <input
+                type="color"
+                value={style.threadColor}
+                disabled={multiColor}
+                onChange={(e) => updateStyle({ threadColor: e.target.value })}
+                className="w-10 h-8 bg-transparent disabled:opacity-40"
+              />
+              <input
+                type="range"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={style.threadOpacity}
+                onChange={(e) => updateStyle({ threadOpacity: Number(e.target.value) })}
+                disabled={multiColor}
+                className="flex-1 disabled:opacity-40"
+                title="Thread opacity"
+              />
+              <span className="w-10 text-xs text-right">{Math.round(style.threadOpacity * 100)}%</span>
+            </div>
+          </label>
+        </div>
+
+        <div className="flex gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={style.showNails}
+              onChange={(e) => updateStyle({ showNails: e.target.checked })}
+            />
+            Nails
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={style.showNumbers}
+              disabled={!style.showNails}
+              onChange={(e) => updateStyle({ showNumbers: e.target.checked })}
+            />
+            Numbers
+          </label>
+        </div>
+
+        <div className="text-xs text-gray-400">Output: {width} × {height}px</div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-md text-sm transition-colors"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { clampMeasurements, estimateThread, formatLength, loadMeasurements } from '../lib/estimates';
+import type { BuildMeasurements } from '../lib/estimates';
+import { applyTrim, budgetState } from '../lib/lineBudget';
+import type { TrimPlan } from '../lib/lineBudget';
+import { planTrimInWorker } from '../lib/lineBudgetWorker';
+import { DEFAULT_PARAMETERS } from '../lib/parameters';
+import type { GenerationParameters } from '../lib/parameters';
+import { getPatternBounds, getStrings } from '../lib/pattern';
+import type { StringArtPattern } from '../lib/pattern';
+import { ANALYSIS_SIZE, createStringRenderer, loadDarknessImage, rmse, sizeFor } from '../lib/quality';
+import type { DarknessImage } from '../lib/quality';
+
+interface LineBudgetPanelProps {
+  pattern: StringArtPattern;                 // Untrimmed pattern
+  sourceImage: string;                       // Processed image the pattern was generated from
+  parameters: GenerationParameters | null;   // Line weight drives the error model
+  onPreview: (pattern: StringArtPattern) => void;
+  onApply: (pattern: StringArtPattern) => void;
+  onExit: () => void;
+}
+
+interface Analysis {
+  pattern: StringArtPattern;  // Pattern the plan was made for
+  source: DarknessImage;
+  plan: TrimPlan;
+}
+
+type StringRenderer = ReturnType<typeof createStringRenderer>;
+
+const totalThreadMm = (pattern: StringArtPattern, measurements: BuildMeasurements) =>
+  estimateThread(pattern, getStrings(pattern), Infinity, measurements).totalMm;
+
+export default function LineBudgetPanel({ pattern, sourceImage, parameters, onPreview, onApply, onExit }: LineBudgetPanelProps) {
+  const lineWeight = parameters?.lineWeight ?? DEFAULT_PARAMETERS.lineWeight;
+  const bounds = useMemo(() => getPatternBounds(pattern), [pattern]);
+  const analysisSize = useMemo(() => sizeFor(ANALYSIS_SIZE, bounds.width, bounds.height), [bounds]);
+  const [measurements] = useState(() => clampMeasurements(loadMeasurements()));
+
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [budget, setBudget] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Draws the untrimmed pattern up to the budget for the early-stop comparison; kept across budget changes
+  const truncatedRef = useRef<{ analysis: Analysis; renderer: StringRenderer } | null>(null);
+
+  // Rank the strings against the source at the analysis size, off the main thread; starts over whenever the pattern changes
+  useEffect(() => {
+    const controller = new AbortController();
+    const rank = async () => {
+      setError(null);
+      try {
+        const source = await loadDarknessImage(sourceImage, analysisSize.width, analysisSize.height);
+        const plan = await planTrimInWorker(pattern, source, lineWeight, controller.signal);
+        setAnalysis({ pattern, source, plan });
+        setBudget(null);
+      } catch (rankError) {
+        if (controller.signal.aborted) return;
+        console.error('Error ranking strings:', rankError);
+        setError(rankError instanceof Error ? rankError.message : 'Analysis failed');
+      }
+    };
+    rank();
+    return () => controller.abort();
+  }, [pattern, sourceImage, analysisSize, lineWeight]);
+
+  const plan = analysis?.pattern === pattern ? analysis.plan : null;
+  const total = plan?.strings ?? 0;
+  const shownBudget = useDeferredValue(budget ?? total);
+
+  const fullMm = useMemo(() => totalThreadMm(pattern, measurements), [pattern, measurements]);
+
+  const result = useMemo(() => {
+    if (!plan || !analysis) return null;
+    const state = budgetState(plan, shownBudget);
+    const trimmed = applyTrim(pattern, plan, shownBudget);
+    // What simply stopping early would give for the same number of strings. The renderer only draws
+    // forward, so it is started over only for a new analysis or a lower budget
+    let truncated = truncatedRef.current;
+    if (!truncated || truncated.analysis !== analysis || truncated.renderer.drawn > state.strings) {
+      truncated = {
+        analysis,
+        renderer: createStringRenderer(pattern, analysis.source.width, analysis.source.height, lineWeight),
+      };
+      truncatedRef.current = truncated;
+    }
+    truncated.renderer.advanceTo(state.strings);
+    return {
+      state,
+      trimmed,
+      truncatedRmse: rmse(analysis.source.data, truncated.renderer.image.data),
+      savedMm: fullMm - totalThreadMm(trimmed, measurements),
+    };
+  }, [plan, analysis, pattern, shownBudget, lineWeight, fullMm, measurements]);
+
+  // The visualizer follows the deferred budget with the same trimmed pattern the stats are for
+  const trimmed = result?.trimmed;
+  useEffect(() => {
+    if (trimmed) onPreview(trimmed);
+  }, [trimmed, onPreview]);
+
+  const best = useMemo(() => plan?.steps.reduce<{ strings: number; rmse: number }>(
+    (min, step) => (step.strings > 0 && step.rmse < min.rmse ? step : min),
+    plan,
+  ), [plan]);
+
+  const formatChange = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(4)}`;
+
+  return (
+    <div className="p-4 bg-gray-800 border-b border-gray-700 text-white space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          Line budget · {plan ? `${result?.state.strings ?? total} of ${total} strings` : 'ranking strings...'}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => result && onApply(result.trimmed)}
+            disabled={!result || result.trimmed === pattern}
+            className="flex items-center gap-1 px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md text-sm transition-colors"
+            title="Replace the pattern with the trimmed one; undo in edit mode"
+          >
+            <Check className="w-4 h-4" />
+            Apply
+          </button>
+          <button
+            onClick={onExit}
+            className="flex items-center gap-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {plan && result && (
+        <>
+          <label className="flex items-center gap-2 text-sm">
+            Strings:
+            <input
+              type="range"
+              min={Math.min(1, total)}
+              max={total}
+              value={budget ?? total}
+              onChange={(e) => setBudget(parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <input
+              type="number"
+              min={Math.min(1, total)}
+              max={total}
+              value={budget ?? total}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (!Number.isNaN(value)) setBudget(Math.max(0, Math.min(value, total)));
+              }}
+              className="w-20 px-2 py-1 bg-gray-700 text-white rounded-md text-sm"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-900 rounded-md p-3">
+              <div className="text-gray-400 text-xs">Thread saved</div>
+              <div className="text-xl font-bold text-yellow-400">{formatLength(result.savedMm)}</div>
+              <div className="text-gray-400 text-xs">{total - result.state.strings} strings fewer</div>
+            </div>
+            <div className="bg-gray-900 rounded-md p-3">
+              <div className="text-gray-400 text-xs">RMSE trimmed</div>
+              <div className="text-xl font-bold">{result.state.rmse.toFixed(4)}</div>
+              <div className="text-gray-400 text-xs">{formatChange(result.state.rmse - plan.rmse)} vs. all strings</div>
+            </div>
+            <div className="bg-gray-900 rounded-md p-3">
+              <div className="text-gray-400 text-xs">RMSE stopping early</div>
+              <div className="text-xl font-bold">{result.truncatedRmse.toFixed(4)}</div>
+              <div className="text-gray-400 text-xs">First {result.state.strings} strings only</div>
+            </div>
+            <div className="bg-gray-900 rounded-md p-3">
+              <div className="text-gray-400 text-xs">RMSE all strings</div>
+              <div className="text-xl font-bold">{plan.rmse.toFixed(4)}</div>
+              {best && best !== plan && (
+                <button
+                  onClick={() => setBudget(best.strings)}
+                  className="text-xs text-yellow-400 hover:underline"
+                  title="Trim to the lowest error"
+                >
+                  Lowest error at {best.strings} strings
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="text-xs text-gray-400">
+            The strings that help the image least are removed first; each thread stays one continuous path.
+            Thread lengths use the board from Materials.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
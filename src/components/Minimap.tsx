@@ -0,0 +1,47 @@
+import { useRef } from 'react';
+
+interface MinimapProps {
+  image: string;    // Whole board at minimap size
+  width: number;
+  height: number;
+  viewport: { x: number; y: number; width: number; height: number };  // Visible part, in minimap pixels
+  onNavigate: (x: number, y: number) => void;                          // Centers the view on a minimap point
+}
+
+// Overview of the whole board with the visible area outlined; click or drag to move around
+export default function Minimap({ image, width, height, viewport, onNavigate }: MinimapProps) {
+  const draggingRef = useRef(false);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    onNavigate(e.clientX - box.left, e.clientY - box.top);
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 rounded border border-gray-600 bg-gray-900 overflow-hidden cursor-pointer shadow-lg"
+      style={{ width, height, touchAction: 'none' }}
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current) navigate(e);
+      }}
+      onPointerUp={() => {
+        draggingRef.current = false;
+      }}
+      onPointerCancel={() => {
+        draggingRef.current = false;
+      }}
+      title="Click or drag to move the view"
+    >
+      <img src={image} alt="" draggable={false} className="w-full h-full pointer-events-none" />
+      <div
+        className="absolute border-2 border-yellow-400 bg-yellow-400 bg-opacity-10 pointer-events-none"
+        style={{ left: viewport.x, top: viewport.y, width: viewport.width, height: viewport.height }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { DEFAULT_LAYOUT, LAYOUT_LIMITS, LAYOUT_SHAPES } from '../lib/nailLayout';
+import type { LayoutErrors, LayoutShape, NailLayoutSettings, SideCounts } from '../lib/nailLayout';
+import { PARAMETER_LIMITS } from '../lib/parameters';
+
+interface NailLayoutPanelProps {
+  enabled: boolean;             // Custom layout instead of the standard nails for the board shape
+  settings: NailLayoutSettings;
+  errors: LayoutErrors;
+  nailTotal: number | null;     // Nails the layout produces, null while it is invalid
+  previewing: boolean;          // Layout shown on the visualizer stage
+  onEnabledChange: (enabled: boolean) => void;
+  onChange: (settings: NailLayoutSettings) => void;
+  onPreviewChange: (previewing: boolean) => void;
+  disabled?: boolean;
+}
+
+type SliderField = 'rotation' | 'offset' | 'cornerBias' | 'margin';
+
+const SLIDERS: { field: SliderField; label: string; step: number; format: (value: number) => string }[] = [
+  { field: 'rotation', label: 'Rotation', step: 1, format: value => `${value}°` },
+  { field: 'offset', label: 'Offset along outline', step: 0.05, format: value => `${Math.round(value * 100)}% of spacing` },
+  { field: 'cornerBias', label: 'Corner density', step: 0.05, format: value => value.toFixed(2) },
+  { field: 'margin', label: 'Margin', step: 0.01, format: value => `${Math.round(value * 100)}%` },
+];
+
+const SIDE_LABELS = ['Top', 'Right', 'Bottom', 'Left'];
+
+const inputClass = 'w-full bg-black border border-green-400 border-opacity-50 rounded px-2 py-1 text-sm text-green-400 focus:border-opacity-100 disabled:opacity-50';
+
+export default function NailLayoutPanel({
+  enabled,
+  settings,
+  errors,
+  nailTotal,
+  previewing,
+  onEnabledChange,
+  onChange,
+  onPreviewChange,
+  disabled = false,
+}: NailLayoutPanelProps) {
+  const update = (patch: Partial<NailLayoutSettings>) => onChange({ ...settings, ...patch });
+  const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+  const parseNumber = (e: React.ChangeEvent<HTMLInputElement>) => (e.target.value === '' ? NaN : Number(e.target.value));
+
+  const updateSide = (side: number, value: number) => {
+    const sideCounts = [...settings.sideCounts] as SideCounts;
+    sideCounts[side] = value;
+    update({ sideCounts });
+  };
+
+  const { shape } = settings;
+  // Corners only exist on straight-sided outlines
+  const sliders = SLIDERS.filter(({ field }) => field !== 'cornerBias' || shape === 'polygon' || shape === 'rectangle');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm opacity-80">Nail layout</p>
+        {enabled && (
+          <button
+            onClick={() => onChange(DEFAULT_LAYOUT)}
+            disabled={disabled}
+            className="text-xs flex items-center space-x-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+            title="Reset the layout"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {([
+          { value: false, label: 'Standard' },
+          { value: true, label: 'Custom' },
+        ] as const).map(({ value, label }) => (
+          <button
+            key={label}
+            onClick={() => onEnabledChange(value)}
+            disabled={disabled}
+            className={`py-1 px-3 rounded-lg border text-sm transition-all duration-300 disabled:opacity-50 ${
+              enabled === value
+                ? 'bg-green-400 text-black border-green-400'
+                : 'border-green-400 border-opacity-50 text-green-400 hover:border-opacity-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {!enabled ? (
+        <p className="text-xs opacity-60">Nails are spaced evenly around the board shape from the parameters</p>
+      ) : (
+        <>
+          <label className="block space-y-1">
+            <span className="text-xs opacity-80">Outline</span>
+            <select
+              value={shape}
+              onChange={(e) => update({ shape: e.target.value as LayoutShape })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {LAYOUT_SHAPES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            {shape !== 'rectangle' && (
+              <label className="block space-y-1">
+                <span className="text-xs opacity-80">Nails</span>
+                <input
+                  type="number"
+                  {...PARAMETER_LIMITS.nailCount}
+                  step={1}
+                  value={numberValue(settings.nailCount)}
+                  onChange={(e) => update({ nailCount: parseNumber(e) })}
+                  disabled={disabled}
+                  className={`${inputClass} ${errors.nailCount ? 'border-red-400' : ''}`}
+                />
+              </label>
+            )}
+            {shape === 'polygon' && (
+              <label className="block space-y-1">
+                <span className="text-xs opacity-80">Sides</span>
+                <input
+                  type="number"
+                  {...LAYOUT_LIMITS.sides}
+                  step={1}
+                  value={numberValue(settings.sides)}
+                  onChange={(e) => update({ sides: parseNumber(e) })}
+                  disabled={disabled}
+                  className={`${inputClass} ${errors.sides ? 'border-red-400' : ''}`}
+                />
+              </label>
+            )}
+            {shape === 'rectangle' && SIDE_LABELS.map((label, side) => (
+              <label key={label} className="block space-y-1">
+                <span className="text-xs opacity-80">{label} nails</span>
+                <input
+                  type="number"
+                  {...LAYOUT_LIMITS.sideCount}
+                  step={1}
+                  value={numberValue(settings.sideCounts[side])}
+                  onChange={(e) => updateSide(side, parseNumber(e))}
+                  disabled={disabled}
+                  className={`${inputClass} ${errors.sideCounts ? 'border-red-400' : ''}`}
+                />
+              </label>
+            ))}
+            {(shape === 'circle' || shape === 'rectangle') && (
+              <label className="block space-y-1">
+                <span className="text-xs opacity-80">Aspect ratio (w / h)</span>
+                <input
+                  type="number"
+                  {...PARAMETER_LIMITS.aspectRatio}
+                  step={0.05}
+                  value={numberValue(settings.aspectRatio)}
+                  onChange={(e) => update({ aspectRatio: parseNumber(e) })}
+                  disabled={disabled}
+                  className={`${inputClass} ${errors.aspectRatio ? 'border-red-400' : ''}`}
+                />
+              </label>
+            )}
+          </div>
+          {(['nailCount', 'sides', 'sideCounts', 'aspectRatio'] as const).map(field => errors[field] && (
+            <span key={field} className="block text-xs text-red-400">{errors[field]}</span>
+          ))}
+
+          {shape === 'path' && (
+            <label className="block space-y-1">
+              <span className="text-xs opacity-80">SVG path data</span>
+              <textarea
+                value={settings.path}
+                onChange={(e) => update({ path: e.target.value })}
+                disabled={disabled}
+                rows={3}
+                spellCheck={false}
+                placeholder="M 0 0 L 100 0 L 50 80 Z"
+                className={`${inputClass} font-mono text-xs ${errors.path ? 'border-red-400' : ''}`}
+              />
+              {errors.path && <span className="block text-xs text-red-400">{errors.path}</span>}
+            </label>
+          )}
+
+          <div className="space-y-2">
+            {sliders.map(({ field, label, step, format }) => (
+              <label key={field} className="block space-y-1">
+                <span className="flex justify-between text-xs opacity-80">
+                  <span>{label}</span>
+                  <span>{format(settings[field])}</span>
+                </span>
+                <input
+                  type="range"
+                  {...LAYOUT_LIMITS[field]}
+                  step={step}
+                  value={settings[field]}
+                  onChange={(e) => update({ [field]: Number(e.target.value) })}
+                  onDoubleClick={() => update({ [field]: DEFAULT_LAYOUT[field] })}
+                  disabled={disabled}
+                  className="w-full accent-green-400"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs opacity-80">
+              {nailTotal !== null ? `${nailTotal} nails · overrides nail count and board shape` : 'Fix the layout to use it'}
+            </span>
+            <button
+              onClick={() => onPreviewChange(!previewing)}
+              disabled={disabled || nailTotal === null}
+              className="text-xs flex items-center space-x-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+              title={previewing ? 'Back to the pattern' : 'Show the layout on the board'}
+            >
+              {previewing ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+              <span>{previewing ? 'Hide preview' : 'Preview'}</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { RotateCcw, Shuffle } from 'lucide-react';
+import {
+  BOARD_SHAPES,
+  DEFAULT_PARAMETERS,
+  PARAMETER_LIMITS,
+  PARAMETER_PRESETS,
+  hasFreeAspect,
+  maxMinDistance,
+  randomSeed,
+} from '../lib/parameters';
+import type { BoardShape, GenerationParameters, ParameterErrors } from '../lib/parameters';
+
+interface ParameterPanelProps {
+  parameters: GenerationParameters;
+  errors: ParameterErrors;
+  onChange: (parameters: GenerationParameters) => void;
+  disabled?: boolean;
+  layoutActive?: boolean;  // A custom nail layout sets the nail count and board shape
+}
+
+type NumericField = 'nailCount' | 'maxLines' | 'lineWeight' | 'minDistance' | 'aspectRatio';
+
+const inputClass = 'w-full bg-black border border-green-400 border-opacity-50 rounded px-2 py-1 text-sm text-green-400 focus:border-opacity-100 disabled:opacity-50';
+
+export default function ParameterPanel({
+  parameters,
+  errors,
+  onChange,
+  disabled = false,
+  layoutActive = false,
+}: ParameterPanelProps) {
+  const update = (patch: Partial<GenerationParameters>) => onChange({ ...parameters, ...patch });
+
+  const handleNumberChange = (field: NumericField) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    update({ [field]: e.target.value === '' ? NaN : Number(e.target.value) });
+  };
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    update({ seed: e.target.value === '' ? null : Number(e.target.value) });
+  };
+
+  const activePreset = PARAMETER_PRESETS.find(preset =>
+    (Object.keys(preset.parameters) as (keyof GenerationParameters)[])
+      .filter(key => key !== 'seed')
+      .every(key => preset.parameters[key] === parameters[key])
+  );
+
+  const fields: { field: NumericField; label: string; min: number; max: number }[] = [
+    { field: 'nailCount', label: 'Nails', ...PARAMETER_LIMITS.nailCount },
+    { field: 'maxLines', label: 'Max lines', ...PARAMETER_LIMITS.maxLines },
+    { field: 'lineWeight', label: 'String weight', ...PARAMETER_LIMITS.lineWeight },
+    { field: 'minDistance', label: 'Min nail skip', min: PARAMETER_LIMITS.minDistance.min, max: maxMinDistance(parameters.nailCount) },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm opacity-80">Parameters</p>
+        <button
+          onClick={() => onChange(DEFAULT_PARAMETERS)}
+          disabled={disabled}
+          className="text-xs flex items-center space-x-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+          title="Reset to defaults"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Defaults</span>
+        </button>
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2">
+        {PARAMETER_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange({ ...preset.parameters, seed: parameters.seed })}
+            disabled={disabled}
+            className={`px-2 py-1 rounded border text-xs transition-all duration-300 disabled:opacity-50 ${
+              activePreset?.id === preset.id
+                ? 'bg-green-400 text-black border-green-400'
+                : 'border-green-400 border-opacity-50 hover:border-opacity-100'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Numeric fields */}
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(({ field, label, min, max }) => (
+          <label key={field} className="block space-y-1">
+            <span className="text-xs opacity-80">{label}</span>
+            <input
+              type="number"
+              min={min}
+              max={max}
+              step={1}
+              value={Number.isNaN(parameters[field]) ? '' : parameters[field]}
+              onChange={handleNumberChange(field)}
+              disabled={disabled || (layoutActive && field === 'nailCount')}
+              className={`${inputClass} ${errors[field] ? 'border-red-400' : ''}`}
+            />
+            {errors[field] && <span className="block text-xs text-red-400">{errors[field]}</span>}
+          </label>
+        ))}
+      </div>
+
+      {/* Board shape */}
+      <label className="block space-y-1">
+        <span className="text-xs opacity-80">Board shape</span>
+        <select
+          value={parameters.boardShape}
+          onChange={(e) => update({ boardShape: e.target.value as BoardShape })}
+          disabled={disabled || layoutActive}
+          className={inputClass}
+        >
+          {BOARD_SHAPES.map(shape => (
+            <option key={shape.value} value={shape.value}>{shape.label}</option>
+          ))}
+        </select>
+        {errors.boardShape && <span className="block text-xs text-red-400">{errors.boardShape}</span>}
+      </label>
+
+      {/* Aspect ratio, only meaningful for boards that are not round or square */}
+      {hasFreeAspect(parameters.boardShape) && (
+        <label className="block space-y-1">
+          <span className="text-xs opacity-80">Aspect ratio (width / height)</span>
+          <input
+            type="number"
+            min={PARAMETER_LIMITS.aspectRatio.min}
+            max={PARAMETER_LIMITS.aspectRatio.max}
+            step={0.05}
+            value={Number.isNaN(parameters.aspectRatio) ? '' : parameters.aspectRatio}
+            onChange={handleNumberChange('aspectRatio')}
+            disabled={disabled || layoutActive}
+            className={`${inputClass} ${errors.aspectRatio ? 'border-red-400' : ''}`}
+          />
+          {errors.aspectRatio && <span className="block text-xs text-red-400">{errors.aspectRatio}</span>}
+        </label>
+      )}
+      {layoutActive && (
+        <p className="text-xs opacity-60">Nail count and board shape come from the custom nail layout.</p>
+      )}
+
+      {/* Seed */}
+      <label className="block space-y-1">
+        <span className="text-xs opacity-80">Random seed</span>
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            min={PARAMETER_LIMITS.seed.min}
+            max={PARAMETER_LIMITS.seed.max}
+            step={1}
+            placeholder="Random"
+            value={parameters.seed ?? ''}
+            onChange={handleSeedChange}
+            disabled={disabled}
+            className={`${inputClass} ${errors.seed ? 'border-red-400' : ''}`}
+          />
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              update({ seed: randomSeed() });
+            }}
+            disabled={disabled}
+            className="px-2 border border-green-400 border-opacity-50 rounded hover:border-opacity-100 disabled:opacity-50"
+            title="Pick a random seed"
+          >
+            <Shuffle className="w-4 h-4" />
+          </button>
+        </div>
+        {errors.seed && <span className="block text-xs text-red-400">{errors.seed}</span>}
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { FileUp } from 'lucide-react';
+
+interface PatternDropZoneProps {
+  onFiles: (files: File[]) => void;
+  children: ReactNode;
+}
+
+// Accepts pattern files, or images for a batch, dropped anywhere over its children
+export default function PatternDropZone({ onFiles, children }: PatternDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave also fire for every child element, so count them
+  const dragDepthRef = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    onFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => hasFiles(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-80 border-2 border-dashed border-green-400 rounded-lg pointer-events-none">
+          <div className="text-center space-y-2 text-green-400">
+            <FileUp className="w-12 h-12 mx-auto" />
+            <p>Drop a pattern file (JSON, CSV or TXT)</p>
+            <p className="text-xs opacity-70">or a nail coordinates file together with a sequence file</p>
+            <p className="text-xs opacity-70">Images open the batch queue</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
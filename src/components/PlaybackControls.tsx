@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { PLAYBACK_SPEEDS } from '../hooks/usePlayback';
+import type { ThreadLayer } from '../lib/pattern';
+
+interface PlaybackControlsProps {
+  position: number;                  // Timeline position, i.e. strings shown + 1
+  total: number;                     // Timeline length
+  isPlaying: boolean;
+  speed: number;
+  showNails: boolean;
+  showNailNumbers: boolean;
+  threads: ThreadLayer[] | null;     // Listed with a visibility toggle each, for multi-color patterns only
+  hiddenLayers: number[];
+  onPlay: () => void;
+  onPause: () => void;
+  onShowAll: () => void;
+  onReset: () => void;
+  onSeek: (position: number) => void;
+  onStep: (delta: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onShowNailsChange: (show: boolean) => void;
+  onShowNailNumbersChange: (show: boolean) => void;
+  onToggleLayer: (layer: number) => void;
+  children?: React.ReactNode;        // Further actions, next to the playback buttons
+}
+
+export default function PlaybackControls({
+  position,
+  total,
+  isPlaying,
+  speed,
+  showNails,
+  showNailNumbers,
+  threads,
+  hiddenLayers,
+  onPlay,
+  onPause,
+  onShowAll,
+  onReset,
+  onSeek,
+  onStep,
+  onSpeedChange,
+  onShowNailsChange,
+  onShowNailNumbersChange,
+  onToggleLayer,
+  children,
+}: PlaybackControlsProps) {
+  const [goToLine, setGoToLine] = useState('');
+  const progress = total > 0 ? ((position / total) * 100).toFixed(1) : 0;
+
+  const handleGoToLine = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const target = parseInt(goToLine);
+    if (Number.isNaN(target)) return;
+    onSeek(target);
+    setGoToLine('');
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 border-b border-gray-700">
+      <div className="flex flex-wrap gap-3 items-center justify-between">
+        <div className="flex gap-2">
+          <button
+            onClick={onPlay}
+            disabled={isPlaying}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
+          >
+            {isPlaying
+              ? 'Animating...'
+              : position > 0 && position < total ? 'Resume' : 'Start Animation'}
+          </button>
+          <button
+            onClick={onPause}
+            disabled={!isPlaying}
+            className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-sm transition-colors"
+          >
+            Pause
+          </button>
+          <button
+            onClick={onShowAll}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm transition-colors"
+          >
+            Show All
+          </button>
+          <button
+            onClick={onReset}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm transition-colors"
+          >
+            Reset
+          </button>
+          {children}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-white text-sm">
+            Speed:
+            <input
+              type="range"
+              min="0"
+              max={PLAYBACK_SPEEDS.length - 1}
+              value={PLAYBACK_SPEEDS.indexOf(speed)}
+              onChange={(e) => onSpeedChange(PLAYBACK_SPEEDS[parseInt(e.target.value)])}
+              className="w-20"
+            />
+            <span className="w-16 text-center">{speed}/s</span>
+          </label>
+
+          <label className="flex items-center gap-2 text-white text-sm">
+            <input
+              type="checkbox"
+              checked={showNails}
+              onChange={(e) => onShowNailsChange(e.target.checked)}
+              className="rounded"
+            />
+            Nails
+          </label>
+
+          <label className="flex items-center gap-2 text-white text-sm">
+            <input
+              type="checkbox"
+              checked={showNailNumbers}
+              onChange={(e) => onShowNailNumbersChange(e.target.checked)}
+              className="rounded"
+            />
+            Numbers
+          </label>
+
+          <div className="text-white text-sm">
+            Progress: {position} / {total} ({progress}%)
+          </div>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          onClick={() => onStep(-1)}
+          disabled={position === 0}
+          className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+          title="Step back one line"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min="0"
+          max={total}
+          value={position}
+          onChange={(e) => onSeek(parseInt(e.target.value))}
+          className="flex-1"
+        />
+        <button
+          onClick={() => onStep(1)}
+          disabled={position >= total}
+          className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+          title="Step forward one line"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <form onSubmit={handleGoToLine} className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            max={total}
+            value={goToLine}
+            onChange={(e) => setGoToLine(e.target.value)}
+            placeholder="Line"
+            className="w-20 px-2 py-1 bg-gray-700 text-white rounded-md text-sm"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors"
+          >
+            Go
+          </button>
+        </form>
+      </div>
+
+      {/* Thread layers, listed in build order */}
+      {threads && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-white text-sm">
+          <span className="text-gray-400">Threads:</span>
+          {threads.map((thread, index) => (
+            <label
+              key={index}
+              className="flex items-center gap-2 px-2 py-1 bg-gray-700 rounded-md cursor-pointer"
+              title={`${Math.max(0, thread.lines.length - 1)} strings`}
+            >
+              <input
+                type="checkbox"
+                checked={!hiddenLayers.includes(index)}
+                onChange={() => onToggleLayer(index)}
+                className="rounded"
+              />
+              <span className="w-3 h-3 rounded-full border border-gray-500" style={{ backgroundColor: thread.color }} />
+              {thread.name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
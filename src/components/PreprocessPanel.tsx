@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { BoardShape } from '../lib/parameters';
+import { DEFAULT_PREPROCESS, PREPROCESS_LIMITS, preprocessCanvas } from '../lib/preprocess';
+import type { PreprocessSettings } from '../lib/preprocess';
+
+interface PixelArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PreprocessPanelProps {
+  imageSrc: string;
+  area: PixelArea | null;  // Current crop in source image pixels
+  settings: PreprocessSettings;
+  boardShape: BoardShape;
+  onChange: (settings: PreprocessSettings) => void;
+  disabled?: boolean;
+}
+
+type SliderField = keyof typeof PREPROCESS_LIMITS;
+type ToggleField = 'grayscale' | 'invert' | 'vignette';
+
+// Long side of the live preview; the upload is processed at full crop resolution
+const PREVIEW_SIZE = 240;
+// Let slider drags settle before re-rendering the preview
+const PREVIEW_DEBOUNCE_MS = 60;
+
+const SLIDERS: { field: SliderField; label: string }[] = [
+  { field: 'brightness', label: 'Brightness' },
+  { field: 'contrast', label: 'Contrast' },
+  { field: 'gamma', label: 'Gamma' },
+  { field: 'sharpen', label: 'Sharpen' },
+  { field: 'edges', label: 'Edge emphasis' },
+  { field: 'backgroundBlur', label: 'Background blur' },
+];
+
+const TOGGLES: { field: ToggleField; label: string }[] = [
+  { field: 'grayscale', label: 'Grayscale' },
+  { field: 'invert', label: 'Invert' },
+  { field: 'vignette', label: 'Board mask' },
+];
+
+export default function PreprocessPanel({
+  imageSrc,
+  area,
+  settings,
+  boardShape,
+  onChange,
+  disabled = false,
+}: PreprocessPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const element = new Image();
+    element.addEventListener('load', () => {
+      if (!cancelled) setImage(element);
+    });
+    element.src = imageSrc;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image || !area || area.width <= 0 || area.height <= 0) return;
+
+    const timeout = setTimeout(() => {
+      const scale = PREVIEW_SIZE / Math.max(area.width, area.height);
+      canvas.width = Math.max(1, Math.round(area.width * scale));
+      canvas.height = Math.max(1, Math.round(area.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(image, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height);
+      try {
+        preprocessCanvas(canvas, settings, boardShape);
+      } catch (error) {
+        console.error('Error previewing preprocessing:', error);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [image, area, settings, boardShape]);
+
+  const update = (patch: Partial<PreprocessSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm opacity-80">Preprocessing</p>
+        <button
+          onClick={() => onChange(DEFAULT_PREPROCESS)}
+          disabled={disabled}
+          className="text-xs flex items-center space-x-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+          title="Reset preprocessing"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      {/* Live preview of what will be uploaded */}
+      <div className="bg-white rounded-lg overflow-hidden flex items-center justify-center">
+        <canvas ref={canvasRef} className="max-w-full" />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TOGGLES.map(({ field, label }) => (
+          <button
+            key={field}
+            onClick={() => update({ [field]: !settings[field] })}
+            disabled={disabled}
+            className={`px-2 py-1 rounded border text-xs transition-all duration-300 disabled:opacity-50 ${
+              settings[field]
+                ? 'bg-green-400 text-black border-green-400'
+                : 'border-green-400 border-opacity-50 hover:border-opacity-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {settings.vignette && boardShape !== 'circle' && boardShape !== 'ellipse' && (
+        <p className="text-xs opacity-60">The board mask only applies to round boards.</p>
+      )}
+
+      <div className="space-y-2">
+        {SLIDERS.map(({ field, label }) => (
+          <label key={field} className="block space-y-1">
+            <span className="flex justify-between text-xs opacity-80">
+              <span>{label}</span>
+              <span>{settings[field].toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              {...PREPROCESS_LIMITS[field]}
+              value={settings[field]}
+              onChange={(e) => update({ [field]: Number(e.target.value) })}
+              onDoubleClick={() => update({ [field]: DEFAULT_PREPROCESS[field] })}
+              disabled={disabled}
+              className="w-full accent-green-400"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Check, Copy, HardDrive, Pencil, Trash2, X } from 'lucide-react';
+import { countStrings } from '../lib/pattern';
+import type { Project, StorageUsage } from '../lib/projectStore';
+
+interface ProjectGalleryProps {
+  projects: Project[];
+  activeId: string | null;
+  usage: StorageUsage | null;
+  error: string | null;
+  onOpen: (project: Project) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+export default function ProjectGallery({
+  projects,
+  activeId,
+  usage,
+  error,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectGalleryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: Project) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const usedPercent = usage && usage.quota > 0 ? (usage.usage / usage.quota) * 100 : 0;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm opacity-80">Projects</p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {projects.length === 0 ? (
+        <p className="text-xs opacity-60">Generated and imported patterns are saved here automatically.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center space-x-2 p-2 rounded-lg border transition-all duration-300 ${
+                project.id === activeId
+                  ? 'border-green-400'
+                  : 'border-green-400 border-opacity-30 hover:border-opacity-70'
+              }`}
+            >
+              <button
+                onClick={() => onOpen(project)}
+                className="w-12 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-900"
+                title="Open project"
+              >
+                {(project.thumbnail ?? project.processedImage) && (
+                  <img
+                    src={project.thumbnail ?? project.processedImage ?? undefined}
+                    alt={project.name}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {editingId === project.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      commitRename();
+                    }}
+                    className="flex items-center space-x-1"
+                  >
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="w-full bg-black border border-green-400 border-opacity-50 rounded px-1 text-xs text-green-400"
+                    />
+                    <button type="submit" title="Save name"><Check className="w-3 h-3" /></button>
+                    <button type="button" onClick={() => setEditingId(null)} title="Cancel"><X className="w-3 h-3" /></button>
+                  </form>
+                ) : (
+                  <button onClick={() => onOpen(project)} className="block w-full text-left">
+                    <p className="text-xs truncate">{project.name}</p>
+                    <p className="text-xs opacity-50">
+                      {countStrings(project.pattern)} lines · {new Date(project.updatedAt).toLocaleDateString()}
+                    </p>
+                  </button>
+                )}
+              </div>
+
+              {editingId !== project.id && (
+                <div className="flex space-x-1 opacity-70">
+                  <button onClick={() => startRename(project)} className="hover:opacity-100" title="Rename">
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onDuplicate(project.id)} className="hover:opacity-100" title="Duplicate">
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="hover:text-red-400" title="Delete">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {usage && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs opacity-70">
+            <span className="flex items-center space-x-1">
+              <HardDrive className="w-3 h-3" />
+              <span>Storage</span>
+            </span>
+            <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)}</span>
+          </div>
+          <div className="h-1 bg-green-400 bg-opacity-20 rounded overflow-hidden">
+            <div className="h-full bg-green-400" style={{ width: `${Math.min(usedPercent, 100)}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, RotateCcw, Trophy, X } from 'lucide-react';
+import usePlayback, { PLAYBACK_SPEEDS } from '../hooks/usePlayback';
+import { formatLength } from '../lib/estimates';
+import type { GenerationParameters } from '../lib/parameters';
+import { countStrings } from '../lib/pattern';
+import type { StringArtPattern } from '../lib/pattern';
+import { COMPARE_RUNS, runThreadMm } from '../lib/runHistory';
+import type { GenerationRun } from '../lib/runHistory';
+import StringArtVisualizer from '../StringVisualizer';
+import type { SyncedView } from '../hooks/useStageView';
+
+interface RunComparisonDialogProps {
+  runs: GenerationRun[];              // Oldest first
+  currentPattern: StringArtPattern;   // Marks the run that is open in the visualizer
+  onKeep: (run: GenerationRun) => void;
+  onRemove: (id: number) => void;
+  onClose: () => void;
+}
+
+const PARAMETER_LABELS: { key: keyof GenerationParameters; format: (parameters: GenerationParameters) => string }[] = [
+  { key: 'nailCount', format: p => `${p.nailCount} nails` },
+  { key: 'maxLines', format: p => `max ${p.maxLines} lines` },
+  { key: 'lineWeight', format: p => `weight ${p.lineWeight}` },
+  { key: 'minDistance', format: p => `skip ${p.minDistance}` },
+  { key: 'boardShape', format: p => p.boardShape },
+  { key: 'aspectRatio', format: p => `aspect ${p.aspectRatio}` },
+  { key: 'seed', format: p => `seed ${p.seed ?? 'random'}` },
+];
+
+const DEFAULT_VIEW: SyncedView = { scale: 1, x: 0, y: 0 };
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function RunComparisonDialog({ runs, currentPattern, onKeep, onRemove, onClose }: RunComparisonDialogProps) {
+  // The latest runs are usually the ones being tuned against each other
+  const [selectedIds, setSelectedIds] = useState(() => runs.slice(-COMPARE_RUNS.max).map(run => run.id));
+  const [view, setView] = useState<SyncedView>(DEFAULT_VIEW);
+  const [showNails, setShowNails] = useState(false);
+
+  const selected = runs.filter(run => selectedIds.includes(run.id));
+  const threadMm = useMemo(() => new Map(runs.map(run => [run.id, runThreadMm(run)])), [runs]);
+  // One timeline for all boards, as long as the longest pattern; shorter ones stay complete past their end
+  const timelineLength = selected.reduce((max, run) => Math.max(max, countStrings(run.pattern) + 1), 0);
+  const { position, isPlaying, speed, setSpeed, play, pause, seek, step } = usePlayback(timelineLength);
+
+  // Parameters that differ between the shown runs are what is being compared, so they stand out
+  const differing = PARAMETER_LABELS
+    .filter(({ key }) => new Set(selected.map(run => run.parameters?.[key])).size > 1)
+    .map(({ key }) => key);
+
+  const toggleRun = (id: number) => {
+    setSelectedIds(current => (
+      current.includes(id)
+        ? current.filter(other => other !== id)
+        : current.length < COMPARE_RUNS.max ? [...current, id] : current
+    ));
+  };
+
+  // A removed run no longer takes up one of the boards
+  const removeRun = (id: number) => {
+    setSelectedIds(current => current.filter(other => other !== id));
+    onRemove(id);
+  };
+
+  // Every new selection starts with all strings shown
+  useEffect(() => {
+    pause();
+    seek(timelineLength);
+  }, [timelineLength, pause, seek]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-6xl mx-4 text-white space-y-4 max-h-screen overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold">Compare Runs</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Run history */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Show {COMPARE_RUNS.min} to {COMPARE_RUNS.max}:</span>
+          {runs.map(run => {
+            const isSelected = selectedIds.includes(run.id);
+            return (
+              <span
+                key={run.id}
+                className={`flex items-center rounded-md transition-colors ${isSelected ? 'bg-blue-600' : 'bg-gray-700'}`}
+              >
+                <button
+                  onClick={() => toggleRun(run.id)}
+                  disabled={!isSelected && selectedIds.length >= COMPARE_RUNS.max}
+                  className="flex items-center gap-1 pl-3 pr-1 py-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {isSelected && <Check className="w-3 h-3" />}
+                  Run {run.id} · {formatTime(run.createdAt)}
+                </button>
+                <button
+                  onClick={() => removeRun(run.id)}
+                  className="px-2 py-1 text-gray-300 hover:text-red-300"
+                  title="Remove from the history"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+
+        {/* Shared playback */}
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <button
+            onClick={isPlaying ? pause : play}
+            disabled={timelineLength === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            {isPlaying ? 'Pause' : position > 0 && position < timelineLength ? 'Resume' : 'Start Animation'}
+          </button>
+          <button
+            onClick={() => step(-1)}
+            disabled={position === 0}
+            className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+            title="Step back one line"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <input
+            type="range"
+            min="0"
+            max={timelineLength}
+            value={position}
+            onChange={(e) => {
+              pause();
+              seek(parseInt(e.target.value));
+            }}
+            className="flex-1 min-w-32"
+          />
+          <button
+            onClick={() => step(1)}
+            disabled={position >= timelineLength}
+            className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+            title="Step forward one line"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <span className="w-28 text-right tabular-nums">{position} / {timelineLength}</span>
+          <label className="flex items-center gap-2">
+            Speed:
+            <input
+              type="range"
+              min="0"
+              max={PLAYBACK_SPEEDS.length - 1}
+              value={PLAYBACK_SPEEDS.indexOf(speed)}
+              onChange={(e) => setSpeed(PLAYBACK_SPEEDS[parseInt(e.target.value)])}
+              className="w-20"
+            />
+            <span className="w-16 text-center">{speed}/s</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showNails}
+              onChange={(e) => setShowNails(e.target.checked)}
+              className="rounded"
+            />
+            Nails
+          </label>
+          <button
+            onClick={() => setView(DEFAULT_VIEW)}
+            className="flex items-center gap-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+            title="Reset zoom and pan on every board"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset View
+          </button>
+        </div>
+
+        {selected.length < COMPARE_RUNS.min ? (
+          <div className="text-sm text-gray-400">
+            Pick at least {COMPARE_RUNS.min} runs. Every generation of this image is added to the history.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {selected.map(({ parameters, ...run }) => (
+              <div key={run.id} className="space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-xs space-y-1">
+                    <div className="text-sm font-bold">
+                      Run {run.id}
+                      {run.pattern === currentPattern && <span className="ml-2 text-green-400 font-normal">open</span>}
+                    </div>
+                    {parameters && (
+                      <div className="flex flex-wrap gap-x-2">
+                        {PARAMETER_LABELS.map(({ key, format }) => (
+                          <span key={key} className={differing.includes(key) ? 'text-yellow-400 font-bold' : 'text-gray-400'}>
+                            {format(parameters)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div>
+                      {countStrings(run.pattern)} strings · {formatLength(threadMm.get(run.id) ?? 0)} of thread
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onKeep({ ...run, parameters })}
+                    className="flex items-center gap-1 px-3 py-2 bg-green-600 hover:bg-green-700 rounded-md text-sm transition-colors shrink-0"
+                    title="Open this run and drop the others from the history"
+                  >
+                    <Trophy className="w-4 h-4" />
+                    Keep
+                  </button>
+                </div>
+                <StringArtVisualizer
+                  pattern={run.pattern}
+                  parameters={parameters}
+                  canvasSize={400}
+                  sync={{ view, onViewChange: setView, lineIndex: position, showNails }}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
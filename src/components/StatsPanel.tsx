@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import {
+  MEASUREMENT_LIMITS,
+  clampMeasurements,
+  estimateThread,
+  formatDuration,
+  formatLength,
+  loadMeasurements,
+  saveMeasurements,
+} from '../lib/estimates';
+import type { BuildMeasurements } from '../lib/estimates';
+import type { PatternString, StringArtPattern, ThreadLayer } from '../lib/pattern';
+
+interface StatsPanelProps {
+  pattern: StringArtPattern;
+  strings: PatternString[];
+  threads: ThreadLayer[];
+  multiColor: boolean;
+  drawnStrings: number;  // Strings currently on the board; the estimate follows the timeline
+}
+
+const BUSIEST_NAILS = 5;
+const CHART_HEIGHT = 48;
+
+const FIELDS: { field: keyof BuildMeasurements; label: string; unit: string }[] = [
+  { field: 'boardSizeMm', label: 'Board size', unit: 'mm' },
+  { field: 'nailDiameterMm', label: 'Nail diameter', unit: 'mm' },
+  { field: 'slackPercent', label: 'Slack', unit: '%' },
+  { field: 'secondsPerString', label: 'Pace', unit: 's/string' },
+];
+
+export default function StatsPanel({ pattern, strings, threads, multiColor, drawnStrings }: StatsPanelProps) {
+  const [measurements, setMeasurements] = useState(loadMeasurements);
+  const estimate = useMemo(
+    () => estimateThread(pattern, strings, drawnStrings, clampMeasurements(measurements)),
+    [pattern, strings, drawnStrings, measurements],
+  );
+
+  const updateMeasurement = (field: keyof BuildMeasurements, value: number) => {
+    const next = { ...measurements, [field]: value };
+    setMeasurements(next);
+    saveMeasurements(next);
+  };
+
+  const busiest = estimate.nailHits
+    .map((hits, nail) => ({ nail, hits }))
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, BUSIEST_NAILS);
+  const unusedNails = estimate.nailHits.filter(hits => hits === 0).length;
+  const maxHits = Math.max(1, ...estimate.nailHits);
+
+  return (
+    <div className="p-4 bg-gray-800 border-t border-gray-700 text-white space-y-4">
+      <div className="flex flex-wrap gap-3">
+        {FIELDS.map(({ field, label, unit }) => (
+          <label key={field} className="flex items-center gap-2 text-sm">
+            {label}
+            <input
+              type="number"
+              {...MEASUREMENT_LIMITS[field]}
+              value={Number.isNaN(measurements[field]) ? '' : measurements[field]}
+              onChange={(e) => updateMeasurement(field, e.target.value === '' ? NaN : Number(e.target.value))}
+              className="w-20 px-2 py-1 bg-gray-700 text-white rounded-md text-sm"
+            />
+            <span className="text-gray-400">{unit}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="bg-gray-900 rounded-md p-3">
+          <div className="text-gray-400 text-xs">Thread to buy</div>
+          <div className="text-xl font-bold text-yellow-400">{formatLength(estimate.totalMm)}</div>
+          <div className="text-gray-400 text-xs">
+            {formatLength(estimate.straightMm)} strings + {formatLength(estimate.wrapMm)} around nails
+          </div>
+        </div>
+        <div className="bg-gray-900 rounded-md p-3">
+          <div className="text-gray-400 text-xs">Build time</div>
+          <div className="text-xl font-bold">{formatDuration(estimate.buildSeconds)}</div>
+          <div className="text-gray-400 text-xs">{estimate.strings} of {strings.length} strings</div>
+        </div>
+        <div className="bg-gray-900 rounded-md p-3">
+          <div className="text-gray-400 text-xs">String length</div>
+          <div>Longest {formatLength(estimate.longestMm)}</div>
+          <div>Shortest {formatLength(estimate.shortestMm)}</div>
+          <div>Average {formatLength(estimate.averageMm)}</div>
+        </div>
+        <div className="bg-gray-900 rounded-md p-3">
+          <div className="text-gray-400 text-xs">Busiest nails</div>
+          {busiest.length > 0 ? (
+            <div>{busiest.map(({ nail, hits }) => `${nail} (${hits}×)`).join(', ')}</div>
+          ) : (
+            <div className="text-gray-400">None yet</div>
+          )}
+          <div className="text-gray-400 text-xs">{unusedNails} of {estimate.nailHits.length} nails unused</div>
+        </div>
+      </div>
+
+      {multiColor && (
+        <div className="flex flex-wrap gap-3 text-sm">
+          {threads.map((thread, index) => (
+            <span key={index} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full border border-gray-500" style={{ backgroundColor: thread.color }} />
+              {thread.name}: {formatLength(estimate.perThreadMm[index] ?? 0)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Hits per nail, in nail order */}
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400">Hits per nail</div>
+        <svg
+          viewBox={`0 0 ${estimate.nailHits.length} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-12 bg-gray-900 rounded"
+        >
+          {estimate.nailHits.map((hits, nail) => (
+            <rect
+              key={nail}
+              x={nail}
+              y={CHART_HEIGHT - (hits / maxHits) * CHART_HEIGHT}
+              width={0.8}
+              height={(hits / maxHits) * CHART_HEIGHT}
+              fill="#fbbf24"
+            >
+              <title>Nail {nail}: {hits}</title>
+            </rect>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+}
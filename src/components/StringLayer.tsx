@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from 'react';
+import { Layer, Shape } from 'react-konva';
+import type Konva from 'konva';
+import type { Nail, PatternString, ThreadLayer } from '../lib/pattern';
+
+interface StringLayerProps {
+  nails: Nail[];           // Already in stage coordinates
+  strings: PatternString[];
+  threads: ThreadLayer[];  // Color and opacity of each layer referenced by the strings
+  hiddenLayers: number[];
+  visibleCount: number;    // Same meaning as currentLineIndex: strings 1..visibleCount-1 are drawn
+  width: number;
+  height: number;
+  scale: number;           // Current stage zoom, used to keep the buffer sharp
+  pixelRatio: number;      // Device pixels per CSS pixel of the screen the stage is on
+  strokeWidth?: number;
+}
+
+// Largest side of the offscreen buffer in device pixels
+const MAX_BUFFER_SIZE = 4096;
+// Wait for zooming to settle before re-rendering the buffer at a new resolution
+const RESOLUTION_DEBOUNCE_MS = 150;
+
+const bufferResolution = (width: number, height: number, scale: number, pixelRatio: number) => {
+  const wanted = pixelRatio * Math.max(1, scale);
+  return Math.min(wanted, MAX_BUFFER_SIZE / Math.max(width, height, 1));
+};
+
+interface BufferConfig {
+  nails: Nail[];
+  strings: PatternString[];
+  threads: ThreadLayer[];
+  hiddenLayers: number[];
+  width: number;
+  height: number;
+  resolution: number;
+  strokeWidth: number;
+}
+
+const sameConfig = (a: BufferConfig | null, b: BufferConfig) =>
+  a !== null && (Object.keys(b) as (keyof BufferConfig)[]).every(key => a[key] === b[key]);
+
+/**
+ * Draws every string into a single offscreen canvas and shows it through one
+ * Konva Shape. Playback only strokes the newly revealed segments, and pan or
+ * zoom just re-blits the buffer, so the cost no longer grows with the number
+ * of strings on screen. Each segment is stroked on its own so overlapping
+ * threads still build up opacity like the real thing, and later thread
+ * layers end up on top of earlier ones as they would on the board.
+ */
+export default function StringLayer({
+  nails,
+  strings,
+  threads,
+  hiddenLayers,
+  visibleCount,
+  width,
+  height,
+  scale,
+  pixelRatio,
+  strokeWidth = 0.8,
+}: StringLayerProps) {
+  const shapeRef = useRef<Konva.Shape>(null);
+  const bufferRef = useRef<HTMLCanvasElement | null>(null);
+  const configRef = useRef<BufferConfig | null>(null);
+  const drawnRef = useRef(0);
+  const [resolution, setResolution] = useState(() => bufferResolution(width, height, scale, pixelRatio));
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setResolution(bufferResolution(width, height, scale, pixelRatio));
+    }, RESOLUTION_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [width, height, scale, pixelRatio]);
+
+  useEffect(() => {
+    const config: BufferConfig = { nails, strings, threads, hiddenLayers, width, height, resolution, strokeWidth };
+
+    // Anything but a growing visible range invalidates what is already drawn
+    if (!sameConfig(configRef.current, config) || !bufferRef.current) {
+      const buffer = bufferRef.current ?? document.createElement('canvas');
+      buffer.width = Math.ceil(width * resolution);
+      buffer.height = Math.ceil(height * resolution);
+      bufferRef.current = buffer;
+      configRef.current = config;
+      drawnRef.current = 1;
+    }
+
+    const buffer = bufferRef.current;
+    const ctx = buffer.getContext('2d');
+    if (!ctx) return;
+
+    const target = Math.max(1, Math.min(visibleCount, strings.length + 1));
+    if (target < drawnRef.current) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, buffer.width, buffer.height);
+      drawnRef.current = 1;
+    }
+
+    ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
+    ctx.lineWidth = strokeWidth;
+    for (let i = drawnRef.current; i < target; i++) {
+      const { from, to, layer } = strings[i - 1];
+      const thread = threads[layer];
+      if (!thread || hiddenLayers.includes(layer) || !nails[from] || !nails[to]) continue;
+      ctx.strokeStyle = thread.color;
+      ctx.globalAlpha = thread.opacity;
+      ctx.beginPath();
+      ctx.moveTo(nails[from].x, nails[from].y);
+      ctx.lineTo(nails[to].x, nails[to].y);
+      ctx.stroke();
+    }
+    drawnRef.current = target;
+
+    shapeRef.current?.getLayer()?.batchDraw();
+  }, [nails, strings, threads, hiddenLayers, visibleCount, width, height, resolution, strokeWidth]);
+
+  return (
+    <Layer listening={false}>
+      <Shape
+        ref={shapeRef}
+        perfectDrawEnabled={false}
+        sceneFunc={(context) => {
+          const buffer = bufferRef.current;
+          if (buffer) {
+            context.drawImage(buffer, 0, 0, width, height);
+          }
+        }}
+      />
+    </Layer>
+  );
+}
@@ -0,0 +1,43 @@
+import { AlertTriangle, Info, X, XCircle } from 'lucide-react';
+import type { Toast, ToastTone } from '../hooks/useToasts';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TONES: Record<ToastTone, { icon: typeof Info; className: string }> = {
+  error: { icon: XCircle, className: 'border-red-400 text-red-400' },
+  warning: { icon: AlertTriangle, className: 'border-yellow-400 text-yellow-400' },
+  info: { icon: Info, className: 'border-green-400 text-green-400' },
+};
+
+export default function ToastStack({ toasts, onDismiss }: ToastStackProps) {
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col items-end space-y-2 font-mono" aria-live="polite">
+      {toasts.map(toast => {
+        const { icon: Icon, className } = TONES[toast.tone];
+        return (
+          <div
+            key={toast.id}
+            role={toast.tone === 'error' ? 'alert' : 'status'}
+            className={`w-80 bg-black border rounded-lg p-3 flex items-start space-x-2 shadow-lg ${className}`}
+          >
+            <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+            <div className="flex-1 text-sm">
+              <p className="font-bold">{toast.title}</p>
+              {toast.message && <p className="opacity-80 text-xs mt-1">{toast.message}</p>}
+            </div>
+            <button
+              onClick={() => onDismiss(toast.id)}
+              className="opacity-60 hover:opacity-100 transition-opacity"
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Maximize, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { MAX_SCALE, MIN_SCALE } from '../hooks/useStageView';
+
+interface ViewControlsProps {
+  scale: number;
+  onZoom: (factor: number) => void;
+  onFit: () => void;
+  onReset: () => void;
+}
+
+const ZOOM_STEP = 1.25;
+
+// Zoom buttons over the canvas, for devices without a wheel or pinch
+export default function ViewControls({ scale, onZoom, onFit, onReset }: ViewControlsProps) {
+  return (
+    <div className="absolute top-4 left-4 flex items-center gap-1 bg-black bg-opacity-75 rounded-md p-1 text-white">
+      <button
+        onClick={() => onZoom(1 / ZOOM_STEP)}
+        disabled={scale <= MIN_SCALE}
+        className="p-1.5 rounded hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title="Zoom out"
+        aria-label="Zoom out"
+      >
+        <ZoomOut size={16} />
+      </button>
+      <span className="w-12 text-center text-xs tabular-nums">{Math.round(scale * 100)}%</span>
+      <button
+        onClick={() => onZoom(ZOOM_STEP)}
+        disabled={scale >= MAX_SCALE}
+        className="p-1.5 rounded hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title="Zoom in"
+        aria-label="Zoom in"
+      >
+        <ZoomIn size={16} />
+      </button>
+      <button
+        onClick={onFit}
+        className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+        title="Fit to board"
+        aria-label="Fit to board"
+      >
+        <Maximize size={16} />
+      </button>
+      <button
+        onClick={onReset}
+        className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+        title="Reset view"
+        aria-label="Reset view"
+      >
+        <RotateCcw size={16} />
+      </button>
+    </div>
+  );
+}
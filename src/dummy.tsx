@@ -1,5 +1,6 @@
-import React, { useState, useRef } from 'react';
+import { useState, useRef } from 'react';
 import { Stage, Layer, Circle, Line, Text, Group } from 'react-konva';
+import type Konva from 'konva';
 
 interface Nail {
   x: number;
@@ -17,7 +18,7 @@ export default function StringArtVisualizer({ nails, lines }:StringArtVisualizer
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [showNailNumbers, setShowNailNumbers] = useState(true);
-  const stageRef = useRef<any>(null);
+  const stageRef = useRef<Konva.Stage>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Stage dimensions
@@ -67,13 +68,15 @@ export default function StringArtVisualizer({ nails, lines }:StringArtVisualizer
   };
 
   // Zoom functionality
-  const handleWheel = (e: any) => {
+  const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
     e.evt.preventDefault();
     
     const scaleBy = 1.1;
     const stage = e.target.getStage();
+    if (!stage) return;
     const oldScale = stage.scaleX();
     const pointer = stage.getPointerPosition();
+    if (!pointer) return;
     
     const mousePointTo = {
       x: (pointer.x - stage.x()) / oldScale,
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FileTooLargeError, ImageDecodeError, MAX_IMAGE_BYTES, describeError, isCancellation } from '../api/errors';
+import { requestTransform } from '../api/transform';
+import { isPending, isSubmittable } from '../lib/batch';
+import type { BatchItem } from '../lib/batch';
+import { blobToDataUrl, createImage, getCroppedImg } from '../lib/cropImage';
+import { withLayout } from '../lib/nailLayout';
+import type { NailPositions } from '../lib/nailLayout';
+import { resolveParameters } from '../lib/parameters';
+import type { GenerationParameters } from '../lib/parameters';
+import type { PreprocessSettings } from '../lib/preprocess';
+import type { CropSettings } from '../lib/projectStore';
+
+// Settings every item of a run shares unless it brings its own parameters
+export interface BatchSettings {
+  parameters: GenerationParameters;
+  layout: NailPositions | null;
+  preprocess: PreprocessSettings;
+  concurrency: number;
+}
+
+/**
+ * Queue of images for batch generation. Items are cropped one by one, then
+ * sent to /transform with at most `concurrency` requests in flight. Every
+ * item has its own AbortController, so one can be cancelled without
+ * touching the rest.
+ */
+export default function useBatchQueue() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const nextIdRef = useRef(1);
+  const controllersRef = useRef(new Map<number, AbortController>());
+
+  const update = useCallback((id: number, patch: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  // Nothing keeps running once the queue is gone
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  // Reads the files in order; the ones that are not usable images come back as errors
+  const addFiles = useCallback(async (files: File[]): Promise<Error[]> => {
+    const rejected: Error[] = [];
+    const added: BatchItem[] = [];
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        rejected.push(new ImageDecodeError(`${file.name} is not an image file.`));
+        continue;
+      }
+      if (file.size > MAX_IMAGE_BYTES) {
+        rejected.push(new FileTooLargeError(file.size));
+        continue;
+      }
+      try {
+        const imageUrl = await blobToDataUrl(file);
+        const image = await createImage(imageUrl);
+        added.push({
+          id: nextIdRef.current++,
+          file,
+          name: file.name.replace(/\.[^.]+$/, '') || 'Untitled',
+          imageUrl,
+          width: image.naturalWidth,
+          height: image.naturalHeight,
+          crop: null,
+          parameters: null,
+          status: 'crop',
+          error: null,
+          result: null,
+        });
+      } catch (error) {
+        console.error('Error reading image file:', error);
+        rejected.push(new ImageDecodeError(`${file.name} could not be read.`));
+      }
+    }
+    setItems(current => [...current, ...added]);
+    return rejected;
+  }, []);
+
+  // A new crop or new parameters make an earlier result stale, so the item is generated again
+  const setCrop = useCallback((id: number, crop: CropSettings) => {
+    setItems(current => current.map(item => (
+      item.id === id && !isPending(item) ? { ...item, crop, status: 'ready', result: null, error: null } : item
+    )));
+  }, []);
+
+  // Crops every item still waiting for one from the middle, at the aspect ratio its board needs
+  const cropAllCentered = useCallback((crop: (item: BatchItem) => CropSettings) => {
+    setItems(current => current.map(item => (
+      item.status === 'crop' ? { ...item, crop: crop(item), status: 'ready' } : item
+    )));
+  }, []);
+
+  // A different board shape needs a different crop, so the item goes back to cropping
+  const setParameters = useCallback((id: number, parameters: GenerationParameters | null, recrop: boolean) => {
+    setItems(current => current.map(item => {
+      if (item.id !== id || isPending(item)) return item;
+      const crop = recrop ? null : item.crop;
+      return { ...item, parameters, crop, status: crop ? 'ready' : 'crop', result: null, error: null };
+    }));
+  }, []);
+
+  const remove = useCallback((id: number) => {
+    controllersRef.current.get(id)?.abort();
+    setItems(current => current.filter(item => item.id !== id));
+  }, []);
+
+  const cancel = useCallback((id: number) => {
+    controllersRef.current.get(id)?.abort();
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const process = useCallback(async (item: BatchItem, settings: BatchSettings, signal: AbortSignal) => {
+    if (signal.aborted || !item.crop) {
+      update(item.id, { status: 'cancelled' });
+      return;
+    }
+    update(item.id, { status: 'running', error: null });
+    try {
+      const own = item.parameters ?? settings.parameters;
+      const parameters = resolveParameters(settings.layout ? withLayout(own, settings.layout) : own);
+      const image = await getCroppedImg(item.imageUrl, item.crop.areaPixels, settings.preprocess, parameters.boardShape);
+      const result = await requestTransform({ image, parameters, layout: settings.layout }, signal);
+      // Older servers do not echo the parameters; keep what was sent so the result stays reproducible
+      update(item.id, { status: 'done', result: { ...result, parameters: result.parameters ?? parameters } });
+    } catch (error) {
+      if (isCancellation(error) || signal.aborted) {
+        update(item.id, { status: 'cancelled' });
+        return;
+      }
+      console.error('Error generating batch item:', error);
+      update(item.id, { status: 'failed', error: describeError(error) });
+    }
+  }, [update]);
+
+  // Queues every cropped item that has not finished yet and works through them
+  const start = useCallback(async (settings: BatchSettings) => {
+    const jobs = items.filter(isSubmittable);
+    if (jobs.length === 0) return;
+    jobs.forEach(job => controllersRef.current.set(job.id, new AbortController()));
+    setItems(current => current.map(item => (
+      jobs.some(job => job.id === item.id) ? { ...item, status: 'queued', error: null, result: null } : item
+    )));
+
+    let next = 0;
+    const worker = async () => {
+      while (next < jobs.length) {
+        const job = jobs[next++];
+        const controller = controllersRef.current.get(job.id);
+        await process(job, settings, controller?.signal ?? AbortSignal.abort());
+        controllersRef.current.delete(job.id);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(settings.concurrency, jobs.length) }, worker));
+  }, [items, process]);
+
+  return { items, addFiles, setCrop, cropAllCentered, setParameters, remove, cancel, cancelAll, start };
+}
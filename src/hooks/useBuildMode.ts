@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type useBuildProgress from './useBuildProgress';
+
+type BuildProgress = ReturnType<typeof useBuildProgress>;
+
+/**
+ * Build mode of the visualizer. While it is on, physical clickers and the
+ * keyboard step through the build: they usually send PageDown/PageUp or
+ * arrow keys.
+ */
+export default function useBuildMode(build: BuildProgress) {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) {
+        return;
+      }
+      if ([' ', 'ArrowRight', 'PageDown', 'Enter'].includes(e.key)) {
+        e.preventDefault();
+        build.advance();
+      } else if (['Backspace', 'ArrowLeft', 'PageUp'].includes(e.key)) {
+        e.preventDefault();
+        build.undo();
+      } else if (e.key === 'Escape') {
+        setActive(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, build]);
+
+  return { active, enter: () => setActive(true), exit: () => setActive(false) };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+
+const STORAGE_PREFIX = 'stringart.build.';
+
+interface StoredProgress {
+  step: number;
+  updatedAt: number;
+}
+
+function loadStep(patternId: string, total: number): number {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + patternId);
+    if (!raw) return 0;
+    const stored = JSON.parse(raw) as Partial<StoredProgress>;
+    return typeof stored.step === 'number' ? Math.max(0, Math.min(stored.step, total)) : 0;
+  } catch {
+    // Corrupt or inaccessible storage just means starting from scratch
+    return 0;
+  }
+}
+
+function saveStep(patternId: string, step: number) {
+  try {
+    const progress: StoredProgress = { step, updatedAt: Date.now() };
+    localStorage.setItem(STORAGE_PREFIX + patternId, JSON.stringify(progress));
+  } catch (error) {
+    console.error('Error saving build progress:', error);
+  }
+}
+
+/**
+ * Number of strings already wound for a pattern, persisted in local storage
+ * under the pattern's fingerprint so a build can be resumed across sessions.
+ */
+export default function useBuildProgress(patternId: string, total: number) {
+  const [state, setState] = useState(() => ({ patternId, step: loadStep(patternId, total) }));
+
+  // Switching patterns picks up that pattern's own saved progress
+  const step = state.patternId === patternId ? state.step : loadStep(patternId, total);
+  if (state.patternId !== patternId) {
+    setState({ patternId, step });
+  }
+
+  const setStep = useCallback((next: number) => {
+    const clamped = Math.max(0, Math.min(next, total));
+    setState({ patternId, step: clamped });
+    saveStep(patternId, clamped);
+  }, [patternId, total]);
+
+  const advance = useCallback(() => setStep(step + 1), [setStep, step]);
+  const undo = useCallback(() => setStep(step - 1), [setStep, step]);
+
+  return { step, setStep, advance, undo };
+}
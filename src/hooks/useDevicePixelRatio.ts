@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from 'react';
+
+const getPixelRatio = () => window.devicePixelRatio || 1;
+
+// A resolution query only matches one ratio, so it is replaced after every change
+const subscribe = (onChange: () => void) => {
+  let query: MediaQueryList | null = null;
+  const handleChange = () => {
+    listen();
+    onChange();
+  };
+  const listen = () => {
+    query?.removeEventListener('change', handleChange);
+    query = window.matchMedia(`(resolution: ${getPixelRatio()}dppx)`);
+    query.addEventListener('change', handleChange);
+  };
+  listen();
+  return () => query?.removeEventListener('change', handleChange);
+};
+
+// Changes when the window moves to another screen or the page is zoomed
+export default function useDevicePixelRatio(): number {
+  return useSyncExternalStore(subscribe, getPixelRatio);
+}
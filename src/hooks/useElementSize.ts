@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Content size of an element, kept current with a ResizeObserver. Returns a
+ * callback ref, so elements that only mount later are picked up as well.
+ * The size is null until the first measurement.
+ */
+export default function useElementSize<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState<ElementSize | null>(null);
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.floor(entry.contentRect.width);
+      const height = Math.floor(entry.contentRect.height);
+      // Same size again would re-render everything that depends on it for nothing
+      setSize(current => (current?.width === width && current.height === height ? current : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, size] as const;
+}
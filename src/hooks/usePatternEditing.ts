@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import type { EditTool } from '../components/EditPanel';
+import type { Nail, PatternString, StringArtPattern } from '../lib/pattern';
+import {
+  deleteString,
+  findNailAt,
+  findStringAt,
+  insertMove,
+  moveNail,
+  rerouteString,
+  truncatePattern,
+} from '../lib/patternEdits';
+
+interface PatternEditingOptions {
+  pattern: StringArtPattern;
+  strings: PatternString[];
+  hiddenLayers: number[];            // Strings of hidden threads cannot be picked
+  enabled: boolean;                  // Whether the pattern can be edited at all right now
+  apply: (pattern: StringArtPattern) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Edit mode of the visualizer: the active tool, the selected string and what
+ * clicks and keyboard shortcuts do to the pattern. Points are in the
+ * pattern's own coordinates; every change goes through `apply`.
+ */
+export default function usePatternEditing({ pattern, strings, hiddenLayers, enabled, apply, undo, redo }: PatternEditingOptions) {
+  const [active, setActive] = useState(false);
+  const [tool, setTool] = useState<EditTool>('select');
+  const [selected, setSelected] = useState<number | null>(null);
+  const editing = active && enabled;
+  // Edits can leave the selection pointing past the last string
+  const selection = selected !== null && selected < strings.length ? selected : null;
+  const selectedString = selection !== null ? strings[selection] : null;
+
+  const enter = () => {
+    setSelected(null);
+    setActive(true);
+  };
+
+  const exit = () => {
+    setActive(false);
+    setSelected(null);
+  };
+
+  const deleteSelected = () => {
+    if (selection === null) return;
+    apply(deleteString(pattern, selection));
+    setSelected(null);
+  };
+
+  const truncateAfterSelected = () => {
+    if (selection === null) return;
+    apply(truncatePattern(pattern, selection + 1));
+  };
+
+  // `tolerance` is how far from a string or nail a click may land, in pattern units
+  const handleClick = (point: Nail, tolerance: number) => {
+    if (tool === 'select') {
+      setSelected(findStringAt(strings, pattern.nails, point, tolerance, strings.length, hiddenLayers));
+      return;
+    }
+    const nail = findNailAt(pattern.nails, point, tolerance);
+    if (nail === null) return;
+    if (tool === 'reroute' && selection !== null) {
+      apply(rerouteString(pattern, selection, nail));
+    } else if (tool === 'insert') {
+      // Each click continues from the move added before it
+      const inserted = insertMove(pattern, selection, nail);
+      apply(inserted.pattern);
+      setSelected(inserted.index);
+    }
+  };
+
+  const handleNailMove = (index: number, point: Nail) => {
+    apply(moveNail(pattern, index, point));
+  };
+
+  // Subscribed anew on every render so the shortcuts always act on the current selection
+  useEffect(() => {
+    if (!editing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelected();
+      } else if (e.key === 'Escape') {
+        setSelected(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return {
+    editing,
+    tool,
+    setTool,
+    selection,
+    selectedString,
+    enter,
+    exit,
+    deleteSelected,
+    truncateAfterSelected,
+    handleClick,
+    handleNailMove,
+  };
+}
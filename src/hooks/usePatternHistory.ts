@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import type { StringArtPattern } from '../lib/pattern';
+
+// Edits kept for undo; patterns share their nail arrays, so this stays cheap
+const HISTORY_LIMIT = 100;
+
+interface History {
+  current: StringArtPattern;  // Pattern the stacks below belong to
+  past: StringArtPattern[];
+  future: StringArtPattern[];
+}
+
+/**
+ * Undo and redo over edits of a pattern owned by the parent. Every edit is
+ * reported through `onChange`; a pattern that arrives from anywhere else
+ * (a new generation, an opened project) starts a fresh history.
+ */
+export default function usePatternHistory(pattern: StringArtPattern, onChange: (pattern: StringArtPattern) => void) {
+  const [history, setHistory] = useState<History>({ current: pattern, past: [], future: [] });
+
+  let { past, future } = history;
+  if (history.current !== pattern) {
+    past = [];
+    future = [];
+    setHistory({ current: pattern, past, future });
+  }
+
+  const apply = useCallback((next: StringArtPattern) => {
+    if (next === pattern) return;
+    setHistory({ current: next, past: [...past, pattern].slice(-HISTORY_LIMIT), future: [] });
+    onChange(next);
+  }, [pattern, past, onChange]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setHistory({ current: previous, past: past.slice(0, -1), future: [pattern, ...future] });
+    onChange(previous);
+  }, [pattern, past, future, onChange]);
+
+  const redo = useCallback(() => {
+    const next = future[0];
+    if (!next) return;
+    setHistory({ current: next, past: [...past, pattern], future: future.slice(1) });
+    onChange(next);
+  }, [pattern, past, future, onChange]);
+
+  return {
+    apply,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
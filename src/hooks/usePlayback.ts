@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Playback speeds offered by the speed slider, in lines per second
+export const PLAYBACK_SPEEDS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+const DEFAULT_SPEED = 100;
+
+/**
+ * Time-based playback over a pattern of `total` lines. The position advances
+ * by elapsed time rather than per frame, so speed does not depend on the
+ * display's refresh rate, and all loop state lives in refs so pausing and
+ * resuming continue exactly where playback stopped.
+ */
+export default function usePlayback(total: number) {
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(DEFAULT_SPEED);
+
+  // Fractional position, so slow speeds still advance between frames
+  const exactPositionRef = useRef(0);
+  const speedRef = useRef(speed);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  const seek = useCallback((index: number) => {
+    const clamped = Math.max(0, Math.min(Math.round(index), total));
+    exactPositionRef.current = clamped;
+    setPosition(clamped);
+  }, [total]);
+
+  const play = useCallback(() => {
+    if (total === 0) return;
+    // Playing from the end starts over
+    if (exactPositionRef.current >= total) {
+      exactPositionRef.current = 0;
+      setPosition(0);
+    }
+    setIsPlaying(true);
+  }, [total]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const step = useCallback((delta: number) => {
+    setIsPlaying(false);
+    seek(Math.floor(exactPositionRef.current) + delta);
+  }, [seek]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let lastTime: number | null = null;
+
+    const tick = (time: number) => {
+      if (lastTime !== null) {
+        const next = Math.min(total, exactPositionRef.current + (speedRef.current * (time - lastTime)) / 1000);
+        exactPositionRef.current = next;
+        setPosition(Math.floor(next));
+        if (next >= total) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      lastTime = time;
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, total]);
+
+  return { position, isPlaying, speed, setSpeed, play, pause, seek, step };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteProject,
+  duplicateProject,
+  getStorageUsage,
+  listProjects,
+  renameProject,
+  saveProject,
+} from '../lib/projectStore';
+import type { Project, StorageUsage } from '../lib/projectStore';
+
+/**
+ * Project library backed by IndexedDB. Every mutation refreshes the list
+ * and the storage estimate so the gallery always mirrors what is stored.
+ */
+export default function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([listProjects(), getStorageUsage()]);
+      setProjects(list);
+      setUsage(estimate);
+      setError(null);
+    } catch (refreshError) {
+      console.error('Error loading projects:', refreshError);
+      setError('Project library is unavailable in this browser');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = useCallback(async <T>(action: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      const result = await action();
+      await refresh();
+      return result;
+    } catch (actionError) {
+      console.error('Error updating projects:', actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Could not update the project library');
+      return undefined;
+    }
+  }, [refresh]);
+
+  // Stable, so callers can list them as effect dependencies
+  const save = useCallback((project: Project) => run(() => saveProject(project)), [run]);
+  const rename = useCallback((id: string, name: string) => run(() => renameProject(id, name)), [run]);
+  const duplicate = useCallback((id: string) => run(() => duplicateProject(id)), [run]);
+  const remove = useCallback((id: string) => run(() => deleteProject(id)), [run]);
+
+  return { projects, usage, error, save, rename, duplicate, remove };
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type Konva from 'konva';
+
+// Zoom and pan, with the position in stage widths so it carries over between stages of different size,
+// e.g. boards shown side by side or a share link opened on another screen
+export interface SyncedView {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Lets a parent drive several visualizers at once: they zoom and pan together and follow one timeline
+export interface VisualizerSync {
+  view: SyncedView;
+  onViewChange: (view: SyncedView) => void;
+  lineIndex: number;     // Timeline position, the same for every visualizer
+  showNails: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const MIN_SCALE = 0.2;
+export const MAX_SCALE = 20;
+
+const DEFAULT_VIEW: SyncedView = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Zoom and pan of a Konva stage by wheel, pinch, drag and buttons. The view
+ * is the visualizer's own unless `sync` hands it to a parent. Positions
+ * passed in and out are in stage pixels.
+ */
+export default function useStageView(stageWidth: number, stageHeight: number, sync: VisualizerSync | null) {
+  const [ownView, setOwnView] = useState<SyncedView>(DEFAULT_VIEW);
+  const view = sync ? sync.view : ownView;
+  const { scale } = view;
+  const position = useMemo(() => ({ x: view.x * stageWidth, y: view.y * stageWidth }), [view, stageWidth]);
+
+  const stageRef = useRef<Konva.Stage>(null);
+  // Latest view for gestures that fire faster than React re-renders
+  const viewRef = useRef({ scale, position: { x: 0, y: 0 } });
+  const pinchRef = useRef<{ center: Point; distance: number } | null>(null);
+
+  useEffect(() => {
+    viewRef.current = { scale, position };
+  }, [scale, position]);
+
+  const setView = (nextScale: number, nextPosition: Point) => {
+    viewRef.current = { scale: nextScale, position: nextPosition };
+    const next = { scale: nextScale, x: nextPosition.x / stageWidth, y: nextPosition.y / stageWidth };
+    if (sync) {
+      sync.onViewChange(next);
+    } else {
+      setOwnView(next);
+    }
+  };
+
+  // Zooms by `factor` while keeping the stage point under `anchor` in place
+  const zoomAt = (anchor: Point, factor: number) => {
+    const { scale: oldScale, position: oldPosition } = viewRef.current;
+    const newScale = Math.max(MIN_SCALE, Math.min(oldScale * factor, MAX_SCALE));
+    setView(newScale, {
+      x: anchor.x - ((anchor.x - oldPosition.x) / oldScale) * newScale,
+      y: anchor.y - ((anchor.y - oldPosition.y) / oldScale) * newScale,
+    });
+  };
+
+  const zoomAtCenter = (factor: number) => zoomAt({ x: stageWidth / 2, y: stageHeight / 2 }, factor);
+
+  // Fills the stage with an area given in unzoomed stage pixels
+  const fitTo = (area: Point & { width: number; height: number }) => {
+    const fit = Math.min(stageWidth / area.width, stageHeight / area.height);
+    setView(fit, {
+      x: (stageWidth - area.width * fit) / 2 - area.x * fit,
+      y: (stageHeight - area.height * fit) / 2 - area.y * fit,
+    });
+  };
+
+  const resetView = () => setView(1, { x: 0, y: 0 });
+
+  // Centers the view on a point in unzoomed stage pixels
+  const centerOn = (point: Point) => {
+    const { scale: current } = viewRef.current;
+    setView(current, {
+      x: stageWidth / 2 - point.x * current,
+      y: stageHeight / 2 - point.y * current,
+    });
+  };
+
+  // Restores a saved view, e.g. from a share link; only the visualizer's own view can be replaced.
+  // Stable, since it is called from an effect
+  const restoreView = useCallback((saved: SyncedView) => setOwnView(saved), []);
+
+  const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const pointer = stageRef.current?.getPointerPosition();
+    if (!pointer) return;
+    zoomAt(pointer, e.evt.deltaY > 0 ? 1 / 1.1 : 1.1);
+  };
+
+  // Two fingers pinch to zoom and move together to pan; one finger keeps dragging the stage
+  const handleTouchMove = (e: Konva.KonvaEventObject<TouchEvent>) => {
+    const [first, second] = Array.from(e.evt.touches);
+    const stage = stageRef.current;
+    if (!first || !second || !stage) return;
+    e.evt.preventDefault();
+    if (stage.isDragging()) stage.stopDrag();
+
+    const box = stage.container().getBoundingClientRect();
+    const center = {
+      x: (first.clientX + second.clientX) / 2 - box.left,
+      y: (first.clientY + second.clientY) / 2 - box.top,
+    };
+    const distance = Math.hypot(first.clientX - second.clientX, first.clientY - second.clientY);
+    const last = pinchRef.current;
+    pinchRef.current = { center, distance };
+    if (!last || last.distance === 0) return;
+
+    const { scale: current, position: currentPosition } = viewRef.current;
+    setView(current, {
+      x: currentPosition.x + center.x - last.center.x,
+      y: currentPosition.y + center.y - last.center.y,
+    });
+    zoomAt(center, distance / last.distance);
+  };
+
+  const handleTouchEnd = () => {
+    pinchRef.current = null;
+  };
+
+  const handleDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
+    // Only the stage itself is draggable
+    if (e.target === stageRef.current) {
+      setView(viewRef.current.scale, { x: e.target.x(), y: e.target.y() });
+    }
+  };
+
+  return {
+    stageRef,
+    view,
+    scale,
+    position,
+    zoomAtCenter,
+    fitTo,
+    resetView,
+    centerOn,
+    restoreView,
+    // Spread onto the Stage
+    stageProps: {
+      ref: stageRef,
+      scaleX: scale,
+      scaleY: scale,
+      x: position.x,
+      y: position.y,
+      draggable: true,
+      onWheel: handleWheel,
+      onTouchMove: handleTouchMove,
+      onTouchEnd: handleTouchEnd,
+      onDragEnd: handleDragEnd,
+    },
+  };
+}
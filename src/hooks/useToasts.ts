@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type ToastTone = 'error' | 'warning' | 'info';
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  title: string;
+  message?: string;
+}
+
+// Errors stay up longer since they usually ask the user to do something
+const DURATIONS: Record<ToastTone, number> = {
+  error: 8000,
+  warning: 6000,
+  info: 4000,
+};
+// Older toasts give way when a burst of them arrives
+const MAX_TOASTS = 4;
+
+/**
+ * Short-lived notifications for things that happen outside the dialog the
+ * user is looking at. Toasts dismiss themselves after a tone-dependent delay.
+ */
+export default function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const notify = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = nextIdRef.current++;
+    setToasts(current => [...current, { ...toast, id }].slice(-MAX_TOASTS));
+    timersRef.current.set(id, setTimeout(() => dismiss(id), DURATIONS[toast.tone]));
+  }, [dismiss]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  return { toasts, notify, dismiss };
+}
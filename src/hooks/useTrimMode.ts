@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+import type { StringArtPattern } from '../lib/pattern';
+
+/**
+ * Line budget mode of the visualizer. While the budget is being picked, a
+ * trimmed preview stands in for the pattern until it is applied through
+ * `apply` or the pattern changes underneath it.
+ */
+export default function useTrimMode(basePattern: StringArtPattern, enabled: boolean, apply: (pattern: StringArtPattern) => void) {
+  const [active, setActive] = useState(false);
+  const [preview, setPreview] = useState<{ base: StringArtPattern; pattern: StringArtPattern } | null>(null);
+  const trimming = active && enabled;
+  const pattern = trimming && preview?.base === basePattern ? preview.pattern : basePattern;
+
+  const enter = () => {
+    setPreview(null);
+    setActive(true);
+  };
+
+  // Both return whether the strings on the board change, i.e. a preview is left behind
+  const exit = () => {
+    setActive(false);
+    setPreview(null);
+    return pattern !== basePattern;
+  };
+
+  const applyTrim = (trimmed: StringArtPattern) => {
+    apply(trimmed);
+    setActive(false);
+    setPreview(null);
+    return trimmed !== pattern;
+  };
+
+  // Stable, since the line budget panel previews from an effect
+  const showPreview = useCallback(
+    (trimmed: StringArtPattern) => setPreview({ base: basePattern, pattern: trimmed }),
+    [basePattern],
+  );
+
+  return { trimming, pattern, enter, exit, apply: applyTrim, showPreview };
+}
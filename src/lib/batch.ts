@@ -0,0 +1,96 @@
+import type { DescribedError } from '../api/errors';
+import type { TransformResult } from '../api/transform';
+import { toInstructionHtml, toPatternJson } from './exporters';
+import type { GenerationParameters } from './parameters';
+import { getPatternBounds } from './pattern';
+import type { CropSettings } from './projectStore';
+import { DEFAULT_RENDER_STYLE, fitTransform, renderToPng } from './renderers';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+/*
+ * Batch generation: many images, each cropped on its own, sent to the
+ * server a few at a time. Items move through
+ *   crop → ready → queued → running → done | failed | cancelled
+ * and failed or cancelled items can be queued again.
+ */
+
+export type BatchStatus = 'crop' | 'ready' | 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  name: string;                             // File name without extension, used to name the results
+  imageUrl: string;                         // Data URL of the original
+  width: number;                            // Original size in pixels
+  height: number;
+  crop: CropSettings | null;                // Null until the item has been cropped
+  parameters: GenerationParameters | null;  // Own parameters; null follows the shared ones
+  status: BatchStatus;
+  error: DescribedError | null;
+  result: TransformResult | null;
+}
+
+export const BATCH_CONCURRENCY = { min: 1, max: 4 } as const;
+export const DEFAULT_CONCURRENCY = 2;
+
+// Preview images are rendered like the visualizer's default stage, then scaled up to this long side
+const PREVIEW_SIZE = 1200;
+const PREVIEW_STAGE = 600;
+const PREVIEW_PADDING = 20;
+
+export const isPending = (item: BatchItem) => item.status === 'queued' || item.status === 'running';
+
+// Items that can be sent (again) as they are
+export const isSubmittable = (item: BatchItem) =>
+  item.crop !== null && (item.status === 'ready' || item.status === 'failed' || item.status === 'cancelled');
+
+function renderPreview(result: TransformResult): Promise<Blob> {
+  const bounds = getPatternBounds(result.pattern);
+  const stageScale = PREVIEW_STAGE / Math.max(bounds.width, bounds.height);
+  const stageWidth = Math.round(bounds.width * stageScale);
+  const stageHeight = Math.round(bounds.height * stageScale);
+  const upscale = PREVIEW_SIZE / PREVIEW_STAGE;
+  return renderToPng(result.pattern, {
+    ...DEFAULT_RENDER_STYLE,
+    showNails: false,
+    width: Math.round(stageWidth * upscale),
+    height: Math.round(stageHeight * upscale),
+    patternToStage: fitTransform(bounds, stageWidth, stageHeight, PREVIEW_PADDING),
+    stageToOutput: { scale: upscale, x: 0, y: 0 },
+    visibleCount: Infinity,
+  });
+}
+
+// Folder names that are safe on every file system and unique within the archive
+function folderNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(original => {
+    const base = original.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'pattern';
+    let name = base;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      name = `${base}-${copy}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * One folder per finished item with its pattern JSON, printable instruction
+ * sheet and a PNG preview of the strings.
+ */
+export async function toBatchZip(items: BatchItem[]): Promise<Blob> {
+  const finished = items.flatMap(item => (item.result ? [{ title: item.name, result: item.result }] : []));
+  const names = folderNames(finished.map(({ title }) => title));
+  const entries: ZipEntry[] = [];
+  for (const [index, { title, result }] of finished.entries()) {
+    const name = names[index];
+    entries.push(
+      { name: `${name}/${name}.json`, data: toPatternJson(result.pattern, result.parameters) },
+      { name: `${name}/${name}-instructions.html`, data: toInstructionHtml(result.pattern, { title: `${title} – String Art Instructions` }) },
+      { name: `${name}/${name}-preview.png`, data: await renderPreview(result) },
+    );
+  }
+  return createZip(entries);
+}
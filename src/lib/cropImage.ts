@@ -0,0 +1,83 @@
+import { ImageDecodeError } from '../api/errors';
+import type { BoardShape } from './parameters';
+import { preprocessCanvas } from './preprocess';
+import type { PreprocessSettings } from './preprocess';
+
+// Part of the original image to use, in its own pixels
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const createImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.addEventListener('load', () => resolve(image));
+    image.addEventListener('error', () => reject(new ImageDecodeError()));
+    image.setAttribute('crossOrigin', 'anonymous');
+    image.src = url;
+  });
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Largest area of the given aspect ratio (width / height) centered in a width × height image
+export function centerCrop(width: number, height: number, aspect: number): CropArea {
+  const cropWidth = Math.min(width, Math.round(height * aspect));
+  const cropHeight = Math.min(height, Math.round(cropWidth / aspect));
+  return {
+    x: Math.round((width - cropWidth) / 2),
+    y: Math.round((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+// Cuts the crop out of the image and preprocesses it into the JPEG the solvers take
+export async function getCroppedImg(
+  imageSrc: string,
+  pixelCrop: CropArea,
+  settings: PreprocessSettings,
+  boardShape: BoardShape,
+): Promise<Blob> {
+  const image = await createImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('No 2d context');
+  }
+
+  canvas.width = pixelCrop.width;
+  canvas.height = pixelCrop.height;
+
+  ctx.drawImage(
+    image,
+    pixelCrop.x,
+    pixelCrop.y,
+    pixelCrop.width,
+    pixelCrop.height,
+    0,
+    0,
+    pixelCrop.width,
+    pixelCrop.height
+  );
+  preprocessCanvas(canvas, settings, boardShape);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new ImageDecodeError('The cropped image could not be encoded. Try a smaller crop.'));
+      }
+    }, 'image/jpeg');
+  });
+}
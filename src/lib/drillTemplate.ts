@@ -0,0 +1,367 @@
+import { escapeMarkup } from './exporters';
+import { getPatternBounds } from './pattern';
+import type { Nail, StringArtPattern } from './pattern';
+
+export type PaperSize = 'a4' | 'letter';
+export type Orientation = 'portrait' | 'landscape';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+};
+
+export interface TemplateOptions {
+  boardSizeMm: number;     // Longest side of the board, as in the material estimates
+  nailDiameterMm: number;  // Drawn as a circle in every crosshair
+  paper: PaperSize;
+  orientation: Orientation;
+  overlapMm: number;       // Shared strip between neighboring pages, for lining them up
+  showNumbers: boolean;
+}
+
+// Board size and nail diameter come from the material estimates' measurements
+export const DEFAULT_TEMPLATE_OPTIONS: Omit<TemplateOptions, 'boardSizeMm' | 'nailDiameterMm'> = {
+  paper: 'a4',
+  orientation: 'portrait',
+  overlapMm: 15,
+  showNumbers: true,
+};
+
+export const OVERLAP_LIMITS = { min: 5, max: 40, step: 1 };
+
+// Printers rarely reach the paper edge
+const PAGE_MARGIN_MM = 10;
+// Page label and scale check below the tile
+const FOOTER_MM = 10;
+// Room around the board for crosshairs and numbers on edge nails
+const SHEET_PADDING_MM = 12;
+const CROSS_MM = 3;
+const NUMBER_SIZE_MM = 2.5;
+const SCALE_BAR_MM = 50;
+
+// Everything a template is drawn from, in millimeters from the sheet's top-left corner
+type Mark =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; dashed?: boolean }
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number; dashed?: boolean }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; dashed?: boolean }
+  | { kind: 'text'; x: number; y: number; text: string; size: number };  // Centered on x, y
+
+export interface TemplateSheet {
+  widthMm: number;
+  heightMm: number;
+  boardWidthMm: number;
+  boardHeightMm: number;
+  marks: Mark[];
+}
+
+export interface TemplateTile {
+  row: number;
+  column: number;
+  x: number;  // Top-left corner of the printed area on the sheet, in mm
+  y: number;
+}
+
+export interface TemplatePages {
+  contentWidthMm: number;  // Sheet area each page covers
+  contentHeightMm: number;
+  overlapMm: number;       // Requested overlap, limited to half a page
+  rows: number;
+  columns: number;
+  tiles: TemplateTile[];
+}
+
+const crosshair = (x: number, y: number, size: number): Mark[] => [
+  { kind: 'line', x1: x - size, y1: y, x2: x + size, y2: y },
+  { kind: 'line', x1: x, y1: y - size, x2: x, y2: y + size },
+];
+
+/**
+ * The full-size drilling sheet: the pattern is scaled so the board's longest
+ * side is `boardSizeMm`, every nail gets a crosshair with a circle of the nail
+ * diameter, and numbers sit just outside each nail, away from the board center.
+ */
+export function buildTemplateSheet(
+  pattern: StringArtPattern,
+  options: Pick<TemplateOptions, 'boardSizeMm' | 'nailDiameterMm' | 'showNumbers'>,
+): TemplateSheet {
+  const bounds = getPatternBounds(pattern);
+  const mmPerUnit = options.boardSizeMm / Math.max(bounds.width, bounds.height, 1e-9);
+  const boardWidthMm = bounds.width * mmPerUnit;
+  const boardHeightMm = bounds.height * mmPerUnit;
+  const toSheet = (nail: Nail): Nail => ({
+    x: SHEET_PADDING_MM + (nail.x - bounds.x) * mmPerUnit,
+    y: SHEET_PADDING_MM + (nail.y - bounds.y) * mmPerUnit,
+  });
+  const center = { x: SHEET_PADDING_MM + boardWidthMm / 2, y: SHEET_PADDING_MM + boardHeightMm / 2 };
+
+  const marks: Mark[] = [];
+  const shape = pattern.board?.shape;
+  if (shape === 'square' || shape === 'rectangle') {
+    marks.push({ kind: 'rect', x: SHEET_PADDING_MM, y: SHEET_PADDING_MM, width: boardWidthMm, height: boardHeightMm, dashed: true });
+  } else if (shape) {
+    marks.push({ kind: 'ellipse', cx: center.x, cy: center.y, rx: boardWidthMm / 2, ry: boardHeightMm / 2, dashed: true });
+  }
+  marks.push(...crosshair(center.x, center.y, CROSS_MM * 2));
+
+  pattern.nails.forEach((nail, index) => {
+    const { x, y } = toSheet(nail);
+    marks.push(...crosshair(x, y, CROSS_MM));
+    marks.push({ kind: 'circle', cx: x, cy: y, r: options.nailDiameterMm / 2 });
+    if (options.showNumbers) {
+      const dx = x - center.x;
+      const dy = y - center.y;
+      const distance = Math.hypot(dx, dy);
+      // Nails at the very center have no outward direction; their number goes above
+      const [ux, uy] = distance > 1e-6 ? [dx / distance, dy / distance] : [0, -1];
+      const gap = CROSS_MM + NUMBER_SIZE_MM;
+      marks.push({ kind: 'text', x: x + ux * gap, y: y + uy * gap, text: String(index), size: NUMBER_SIZE_MM });
+    }
+  });
+
+  return {
+    widthMm: boardWidthMm + SHEET_PADDING_MM * 2,
+    heightMm: boardHeightMm + SHEET_PADDING_MM * 2,
+    boardWidthMm,
+    boardHeightMm,
+    marks,
+  };
+}
+
+export function paperDimensions(options: Pick<TemplateOptions, 'paper' | 'orientation'>) {
+  const { widthMm, heightMm } = PAPER_SIZES[options.paper];
+  return options.orientation === 'portrait'
+    ? { widthMm, heightMm }
+    : { widthMm: heightMm, heightMm: widthMm };
+}
+
+type PageOptions = Pick<TemplateOptions, 'paper' | 'orientation' | 'overlapMm'>;
+
+// Splits the sheet into page-sized tiles that overlap by `overlapMm` on every shared edge
+export function tileSheet(sheet: TemplateSheet, options: PageOptions): TemplatePages {
+  const paper = paperDimensions(options);
+  const contentWidthMm = paper.widthMm - PAGE_MARGIN_MM * 2;
+  const contentHeightMm = paper.heightMm - PAGE_MARGIN_MM * 2 - FOOTER_MM;
+  const overlap = Math.min(options.overlapMm, contentWidthMm / 2, contentHeightMm / 2);
+  const count = (sheetSize: number, pageSize: number) =>
+    Math.max(1, Math.ceil((sheetSize - overlap) / (pageSize - overlap)));
+  const columns = count(sheet.widthMm, contentWidthMm);
+  const rows = count(sheet.heightMm, contentHeightMm);
+
+  const tiles: TemplateTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({
+        row,
+        column,
+        x: column * (contentWidthMm - overlap),
+        y: row * (contentHeightMm - overlap),
+      });
+    }
+  }
+  return { contentWidthMm, contentHeightMm, overlapMm: overlap, rows, columns, tiles };
+}
+
+// Spreadsheet-style page names: rows are letters, columns numbers (A1, A2, B1, ...)
+export const tileName = (tile: Pick<TemplateTile, 'row' | 'column'>) =>
+  `${String.fromCharCode(65 + (tile.row % 26))}${tile.column + 1}`;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function marksToSvg(marks: Mark[]): string {
+  const dash = (dashed?: boolean) => (dashed ? ' stroke-dasharray="3 2" stroke="#888"' : '');
+  return marks.map(mark => {
+    switch (mark.kind) {
+      case 'line':
+        return `<line x1="${round(mark.x1)}" y1="${round(mark.y1)}" x2="${round(mark.x2)}" y2="${round(mark.y2)}"${dash(mark.dashed)} />`;
+      case 'circle':
+        return `<circle cx="${round(mark.cx)}" cy="${round(mark.cy)}" r="${round(mark.r)}" />`;
+      case 'ellipse':
+        return `<ellipse cx="${round(mark.cx)}" cy="${round(mark.cy)}" rx="${round(mark.rx)}" ry="${round(mark.ry)}"${dash(mark.dashed)} />`;
+      case 'rect':
+        return `<rect x="${round(mark.x)}" y="${round(mark.y)}" width="${round(mark.width)}" height="${round(mark.height)}"${dash(mark.dashed)} />`;
+      case 'text':
+        return `<text x="${round(mark.x)}" y="${round(mark.y)}" font-size="${mark.size}" stroke="none" fill="#000" text-anchor="middle" dominant-baseline="central">${escapeMarkup(mark.text)}</text>`;
+    }
+  }).join('\n  ');
+}
+
+const svgStyle = 'fill="none" stroke="#000" stroke-width="0.2" font-family="Helvetica, Arial, sans-serif"';
+
+// One sheet at true scale, for plotters, laser cutters or large-format printers
+export function toTemplateSvg(sheet: TemplateSheet): string {
+  const { widthMm, heightMm } = sheet;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${round(widthMm)}mm" height="${round(heightMm)}mm" viewBox="0 0 ${round(widthMm)} ${round(heightMm)}" ${svgStyle}>
+  ${marksToSvg(sheet.marks)}
+</svg>
+`;
+}
+
+// Shaded strip, a dashed line down its middle and two targets where a neighboring page overlaps this one
+function overlapMarks(tile: TemplateTile, pages: TemplatePages): Mark[] {
+  const { contentWidthMm: width, contentHeightMm: height, overlapMm: overlap } = pages;
+  const marks: Mark[] = [];
+  const target = (x: number, y: number): Mark[] => [
+    { kind: 'circle', cx: x, cy: y, r: 2.5 },
+    ...crosshair(x, y, 4),
+  ];
+  const vertical = (x: number, neighbor: string) => {
+    marks.push({ kind: 'line', x1: x, y1: tile.y, x2: x, y2: tile.y + height, dashed: true });
+    marks.push(...target(x, tile.y + height * 0.25), ...target(x, tile.y + height * 0.75));
+    marks.push({ kind: 'text', x, y: tile.y + height / 2, text: neighbor, size: 4 });
+  };
+  const horizontal = (y: number, neighbor: string) => {
+    marks.push({ kind: 'line', x1: tile.x, y1: y, x2: tile.x + width, y2: y, dashed: true });
+    marks.push(...target(tile.x + width * 0.25, y), ...target(tile.x + width * 0.75, y));
+    marks.push({ kind: 'text', x: tile.x + width / 2, y, text: neighbor, size: 4 });
+  };
+
+  if (tile.column > 0) vertical(tile.x + overlap / 2, tileName({ ...tile, column: tile.column - 1 }));
+  if (tile.column < pages.columns - 1) vertical(tile.x + width - overlap / 2, tileName({ ...tile, column: tile.column + 1 }));
+  if (tile.row > 0) horizontal(tile.y + overlap / 2, tileName({ ...tile, row: tile.row - 1 }));
+  if (tile.row < pages.rows - 1) horizontal(tile.y + height - overlap / 2, tileName({ ...tile, row: tile.row + 1 }));
+  return marks;
+}
+
+/**
+ * Printable HTML with one page per tile. Neighboring pages share a strip
+ * with a dashed line and two targets at the same board position, so pages
+ * line up by trimming one along its line and laying it over the other's.
+ * Each page carries a scale bar to check that it printed at 100%.
+ */
+export function toTemplateHtml(sheet: TemplateSheet, options: PageOptions, title = 'Drilling Template'): string {
+  const pages = tileSheet(sheet, options);
+  const paper = paperDimensions(options);
+  const { contentWidthMm: width, contentHeightMm: height } = pages;
+  const marks = marksToSvg(sheet.marks);
+  const boardSize = `${Math.round(sheet.boardWidthMm)} × ${Math.round(sheet.boardHeightMm)} mm`;
+
+  const body = pages.tiles.map((tile, index) => `
+  <section class="page">
+    <svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}mm" height="${round(height)}mm" viewBox="${round(tile.x)} ${round(tile.y)} ${round(width)} ${round(height)}" ${svgStyle}>
+      <rect x="${round(tile.x)}" y="${round(tile.y)}" width="${round(width)}" height="${round(height)}" stroke="#ccc" />
+      ${marks}
+      ${marksToSvg(overlapMarks(tile, pages))}
+    </svg>
+    <div class="footer">
+      <svg xmlns="http://www.w3.org/2000/svg" width="${SCALE_BAR_MM}mm" height="4mm" viewBox="0 0 ${SCALE_BAR_MM} 4" fill="none" stroke="#000" stroke-width="0.3">
+        <line x1="0" y1="2" x2="${SCALE_BAR_MM}" y2="2" /><line x1="0" y1="0" x2="0" y2="4" /><line x1="${SCALE_BAR_MM}" y1="0" x2="${SCALE_BAR_MM}" y2="4" />
+      </svg>
+      <span>${SCALE_BAR_MM} mm</span>
+      <b>${tileName(tile)}</b>
+      <span>Page ${index + 1} of ${pages.tiles.length} · row ${tile.row + 1} of ${pages.rows}, column ${tile.column + 1} of ${pages.columns} · board ${boardSize}</span>
+    </div>
+  </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeMarkup(title)}</title>
+  <style>
+    @page { size: ${round(paper.widthMm)}mm ${round(paper.heightMm)}mm; margin: ${PAGE_MARGIN_MM}mm; }
+    body { margin: 0; font-family: Helvetica, Arial, sans-serif; font-size: 9pt; }
+    .page { width: ${round(width)}mm; height: ${round(height + FOOTER_MM)}mm; page-break-after: always; overflow: hidden; }
+    .page:last-child { page-break-after: auto; }
+    .page > svg { display: block; }
+    .footer { height: ${FOOTER_MM}mm; display: flex; align-items: center; gap: 3mm; }
+    .footer b { font-size: 12pt; }
+    .note { display: none; }
+    @media screen {
+      body { background: #ddd; padding: 16px; }
+      .page { background: #fff; margin: 0 auto 16px; padding: ${PAGE_MARGIN_MM}mm; box-sizing: content-box; }
+      .note { display: block; text-align: center; margin-bottom: 16px; }
+    }
+  </style>
+</head>
+<body>
+  <p class="note">Print at 100% / actual size and check the ${SCALE_BAR_MM} mm bar on each page with a ruler.</p>${body}
+</body>
+</html>
+`;
+}
+
+const PT_PER_MM = 72 / 25.4;
+// Bézier handle length for a quarter circle
+const KAPPA = 0.5523;
+// Helvetica digits are 0.556 em wide, which is all the numbers need for centering
+const DIGIT_WIDTH_EM = 0.556;
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): string {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  const n = (value: number) => round(value).toString();
+  return [
+    `${n(cx + rx)} ${n(cy)} m`,
+    `${n(cx + rx)} ${n(cy + ky)} ${n(cx + kx)} ${n(cy + ry)} ${n(cx)} ${n(cy + ry)} c`,
+    `${n(cx - kx)} ${n(cy + ry)} ${n(cx - rx)} ${n(cy + ky)} ${n(cx - rx)} ${n(cy)} c`,
+    `${n(cx - rx)} ${n(cy - ky)} ${n(cx - kx)} ${n(cy - ry)} ${n(cx)} ${n(cy - ry)} c`,
+    `${n(cx + kx)} ${n(cy - ry)} ${n(cx + rx)} ${n(cy - ky)} ${n(cx + rx)} ${n(cy)} c`,
+    'S',
+  ].join('\n');
+}
+
+/**
+ * Single-page vector PDF of the sheet at true scale. Drawing happens in
+ * millimeters with y pointing down, like the SVG, through one flipped
+ * transform; text is flipped back so it reads upright.
+ */
+export function toTemplatePdf(sheet: TemplateSheet): string {
+  const widthPt = round(sheet.widthMm * PT_PER_MM);
+  const heightPt = round(sheet.heightMm * PT_PER_MM);
+  const scale = round(PT_PER_MM);
+  const ops: string[] = [`${scale} 0 0 ${-scale} 0 ${heightPt} cm`, '0.2 w', '0 G', '0 g'];
+  const setDash = (dashed?: boolean) => ops.push(dashed ? '0.5 G [3 2] 0 d' : '0 G [] 0 d');
+
+  for (const mark of sheet.marks) {
+    switch (mark.kind) {
+      case 'line':
+        setDash(mark.dashed);
+        ops.push(`${round(mark.x1)} ${round(mark.y1)} m ${round(mark.x2)} ${round(mark.y2)} l S`);
+        break;
+      case 'circle':
+        setDash(false);
+        ops.push(ellipsePath(mark.cx, mark.cy, mark.r, mark.r));
+        break;
+      case 'ellipse':
+        setDash(mark.dashed);
+        ops.push(ellipsePath(mark.cx, mark.cy, mark.rx, mark.ry));
+        break;
+      case 'rect':
+        setDash(mark.dashed);
+        ops.push(`${round(mark.x)} ${round(mark.y)} ${round(mark.width)} ${round(mark.height)} re S`);
+        break;
+      case 'text': {
+        const text = mark.text.replace(/[\\()]/g, char => `\\${char}`);
+        const x = mark.x - (mark.text.length * DIGIT_WIDTH_EM * mark.size) / 2;
+        // Baseline a bit below the center so the digits sit centered on it
+        const y = mark.y + mark.size * 0.35;
+        ops.push(`BT /F1 ${mark.size} Tf 1 0 0 -1 ${round(x)} ${round(y)} Tm (${text}) Tj ET`);
+        break;
+      }
+    }
+  }
+  const content = ops.join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${widthPt} ${heightPt}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MEASUREMENTS, clampMeasurements, estimateThread, formatDuration, formatLength } from './estimates';
+import type { BuildMeasurements } from './estimates';
+import { getStrings } from './pattern';
+import type { StringArtPattern } from './pattern';
+
+const nails = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+// 1 mm per unit, half a turn of π mm, no slack
+const measurements: BuildMeasurements = { boardSizeMm: 100, nailDiameterMm: 2, slackPercent: 0, secondsPerString: 10 };
+
+const estimate = (pattern: StringArtPattern, count = Infinity, overrides: Partial<BuildMeasurements> = {}) =>
+  estimateThread(pattern, getStrings(pattern), count, { ...measurements, ...overrides });
+
+describe('estimateThread', () => {
+  it('adds straight strings and half a turn per nail visit, tying on at the first nail', () => {
+    const result = estimate({ nails, lines: [0, 1, 2] });
+    expect(result.strings).toBe(2);
+    expect(result.straightMm).toBeCloseTo(200);
+    expect(result.wrapMm).toBeCloseTo(3 * Math.PI);
+    expect(result.totalMm).toBeCloseTo(200 + 3 * Math.PI);
+    expect(result.nailHits).toEqual([1, 1, 1, 0]);
+    expect(result.buildSeconds).toBe(20);
+  });
+
+  it('reports the longest, shortest and average string', () => {
+    const result = estimate({ nails, lines: [0, 1, 3] });
+    expect(result.longestMm).toBeCloseTo(100 * Math.SQRT2);
+    expect(result.shortestMm).toBeCloseTo(100);
+    expect(result.averageMm).toBeCloseTo((100 + 100 * Math.SQRT2) / 2);
+  });
+
+  it('only counts the first strings when asked to', () => {
+    expect(estimate({ nails, lines: [0, 1, 2, 3] }, 1).straightMm).toBeCloseTo(100);
+    expect(estimate({ nails, lines: [0, 1, 2, 3] }, 0)).toMatchObject({ strings: 0, totalMm: 0, shortestMm: 0, averageMm: 0 });
+  });
+
+  it('scales to the board size and adds slack', () => {
+    expect(estimate({ nails, lines: [0, 1] }, Infinity, { boardSizeMm: 500, nailDiameterMm: 0.5, slackPercent: 10 }).totalMm)
+      .toBeCloseTo((500 + Math.PI / 2) * 1.1);
+  });
+
+  it('ties every thread on separately and splits the total by thread', () => {
+    const result = estimate({
+      nails,
+      lines: [],
+      layers: [
+        { name: 'A', color: '#000', opacity: 1, lines: [0, 1] },
+        { name: 'B', color: '#fff', opacity: 1, lines: [2, 3] },
+      ],
+    });
+    expect(result.wrapMm).toBeCloseTo(4 * Math.PI);
+    expect(result.perThreadMm).toHaveLength(2);
+    expect(result.perThreadMm[0]).toBeCloseTo(100 + 2 * Math.PI);
+    expect(result.perThreadMm[0] + result.perThreadMm[1]).toBeCloseTo(result.totalMm);
+  });
+});
+
+describe('clampMeasurements', () => {
+  it('keeps typed values in range and replaces empty ones with the defaults', () => {
+    expect(clampMeasurements({ boardSizeMm: 10, nailDiameterMm: NaN, slackPercent: 500, secondsPerString: 8 })).toEqual({
+      boardSizeMm: 50,
+      nailDiameterMm: DEFAULT_MEASUREMENTS.nailDiameterMm,
+      slackPercent: 100,
+      secondsPerString: 8,
+    });
+  });
+});
+
+describe('formatting', () => {
+  it('picks the unit that reads best', () => {
+    expect(formatLength(420)).toBe('42.0 cm');
+    expect(formatLength(345_600)).toBe('345.6 m');
+    expect(formatLength(1_234_000)).toBe('1.23 km');
+  });
+
+  it('rounds durations to minutes', () => {
+    expect(formatDuration(89)).toBe('1 min');
+    expect(formatDuration(3 * 3600 + 5 * 60)).toBe('3 h 5 min');
+  });
+});
@@ -0,0 +1,147 @@
+import { getPatternBounds } from './pattern';
+import type { PatternString, StringArtPattern } from './pattern';
+
+// Physical build the estimates are scaled to
+export interface BuildMeasurements {
+  boardSizeMm: number;       // Longest side of the board, or its diameter for round boards
+  nailDiameterMm: number;
+  slackPercent: number;      // Extra thread for knots, tie-offs and mistakes
+  secondsPerString: number;  // Winding pace, including finding the next nail
+}
+
+export const DEFAULT_MEASUREMENTS: BuildMeasurements = {
+  boardSizeMm: 500,
+  nailDiameterMm: 1.5,
+  slackPercent: 10,
+  secondsPerString: 8,
+};
+
+export const MEASUREMENT_LIMITS: Record<keyof BuildMeasurements, { min: number; max: number; step: number }> = {
+  boardSizeMm: { min: 50, max: 3000, step: 10 },
+  nailDiameterMm: { min: 0.5, max: 10, step: 0.1 },
+  slackPercent: { min: 0, max: 100, step: 1 },
+  secondsPerString: { min: 1, max: 120, step: 1 },
+};
+
+// Typed values can be empty or out of range while editing; those fall back to something usable
+export function clampMeasurements(measurements: BuildMeasurements): BuildMeasurements {
+  const clamp = (field: keyof BuildMeasurements) => {
+    const { min, max } = MEASUREMENT_LIMITS[field];
+    const value = measurements[field];
+    return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : DEFAULT_MEASUREMENTS[field];
+  };
+  return {
+    boardSizeMm: clamp('boardSizeMm'),
+    nailDiameterMm: clamp('nailDiameterMm'),
+    slackPercent: clamp('slackPercent'),
+    secondsPerString: clamp('secondsPerString'),
+  };
+}
+
+const STORAGE_KEY = 'stringart.measurements';
+
+// Same board is usually reused for many patterns, so the measurements are remembered
+export function loadMeasurements(): BuildMeasurements {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? clampMeasurements({ ...DEFAULT_MEASUREMENTS, ...(JSON.parse(raw) as Partial<BuildMeasurements>) }) : DEFAULT_MEASUREMENTS;
+  } catch {
+    // Unreadable settings just fall back to the defaults
+    return DEFAULT_MEASUREMENTS;
+  }
+}
+
+export function saveMeasurements(measurements: BuildMeasurements) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(measurements));
+  } catch (error) {
+    console.error('Error saving measurements:', error);
+  }
+}
+
+export interface ThreadEstimate {
+  strings: number;
+  straightMm: number;     // Strings alone, nail center to nail center
+  wrapMm: number;         // Thread that goes around the nails
+  totalMm: number;        // Straight and wrapped thread plus slack, i.e. what to buy
+  perThreadMm: number[];  // totalMm split by thread layer, in build order
+  longestMm: number;
+  shortestMm: number;
+  averageMm: number;
+  nailHits: number[];     // Times the thread goes around each nail
+  buildSeconds: number;
+}
+
+/**
+ * Estimates thread use and winding time for the first `count` strings.
+ * Pattern units are scaled so the board's longest side matches
+ * `boardSizeMm`, and every visit to a nail adds half a turn around it.
+ */
+export function estimateThread(
+  pattern: StringArtPattern,
+  strings: PatternString[],
+  count: number,
+  measurements: BuildMeasurements,
+): ThreadEstimate {
+  const bounds = getPatternBounds(pattern);
+  const mmPerUnit = measurements.boardSizeMm / Math.max(bounds.width, bounds.height, 1e-9);
+  const halfTurnMm = (Math.PI * measurements.nailDiameterMm) / 2;
+  const slack = 1 + measurements.slackPercent / 100;
+  const layerCount = strings.reduce((max, string) => Math.max(max, string.layer + 1), 0);
+
+  const nailHits = new Array<number>(pattern.nails.length).fill(0);
+  const perThreadMm = new Array<number>(layerCount).fill(0);
+  const used = Math.max(0, Math.min(count, strings.length));
+  let straightMm = 0;
+  let wrapMm = 0;
+  let longestMm = 0;
+  let shortestMm = Infinity;
+
+  for (let i = 0; i < used; i++) {
+    const { from, to, layer } = strings[i];
+    const a = pattern.nails[from];
+    const b = pattern.nails[to];
+    if (!a || !b) continue;
+
+    const lengthMm = Math.hypot(b.x - a.x, b.y - a.y) * mmPerUnit;
+    straightMm += lengthMm;
+    longestMm = Math.max(longestMm, lengthMm);
+    shortestMm = Math.min(shortestMm, lengthMm);
+
+    // Each thread is tied to its first nail, then goes around the end of every string
+    let wraps = 1;
+    nailHits[to]++;
+    if (i === 0 || strings[i - 1].layer !== layer) {
+      nailHits[from]++;
+      wraps++;
+    }
+    wrapMm += wraps * halfTurnMm;
+    perThreadMm[layer] += (lengthMm + wraps * halfTurnMm) * slack;
+  }
+
+  return {
+    strings: used,
+    straightMm,
+    wrapMm,
+    totalMm: (straightMm + wrapMm) * slack,
+    perThreadMm,
+    longestMm,
+    shortestMm: used > 0 ? shortestMm : 0,
+    averageMm: used > 0 ? straightMm / used : 0,
+    nailHits,
+    buildSeconds: used * measurements.secondsPerString,
+  };
+}
+
+// "1.2 km", "345.6 m" or "42 cm", whichever reads best
+export function formatLength(mm: number): string {
+  if (mm >= 1_000_000) return `${(mm / 1_000_000).toFixed(2)} km`;
+  if (mm >= 1000) return `${(mm / 1000).toFixed(1)} m`;
+  return `${(mm / 10).toFixed(1)} cm`;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PATTERN_FILE_FORMAT,
+  PATTERN_FILE_VERSION,
+  chunkMoves,
+  escapeMarkup,
+  toCsv,
+  toInstructionHtml,
+  toInstructionText,
+  toPatternFile,
+} from './exporters';
+import type { StringArtPattern } from './pattern';
+
+const nails = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+const single: StringArtPattern = { nails, lines: [0, 2, 1, 3, 0] };
+const multi: StringArtPattern = {
+  nails,
+  lines: [],
+  layers: [
+    { name: 'Red', color: '#ff0000', opacity: 0.5, lines: [0, 2, 1] },
+    { name: 'Blue <b>', color: '#0000ff', opacity: 0.8, lines: [3, 1] },
+  ],
+};
+
+describe('toPatternFile', () => {
+  it('writes the current format with a board derived from the nails', () => {
+    const file = toPatternFile(single, null);
+    expect(file).toMatchObject({
+      format: PATTERN_FILE_FORMAT,
+      version: PATTERN_FILE_VERSION,
+      board: { width: 10, height: 10 },
+      nails,
+      lines: single.lines,
+      parameters: null,
+    });
+    expect(file).not.toHaveProperty('layers');
+  });
+
+  it('keeps thread layers of multi-color patterns', () => {
+    expect(toPatternFile(multi, null).layers).toEqual(multi.layers);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes one numbered row per string', () => {
+    expect(toCsv(single)).toBe('step,from,to\n1,0,2\n2,2,1\n3,1,3\n4,3,0\n');
+  });
+
+  it('adds thread comments and a thread column for multi-color patterns, numbering steps across threads', () => {
+    expect(toCsv(multi)).toBe([
+      '# thread 1: Red, #ff0000, 0.5',
+      '# thread 2: Blue <b>, #0000ff, 0.8',
+      'step,thread,from,to',
+      '1,1,0,2',
+      '2,1,2,1',
+      '3,2,3,1',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('chunkMoves', () => {
+  it('splits a sequence into rows that each start where the last one ended', () => {
+    expect(chunkMoves([0, 1, 2, 3, 4], 2, 5)).toEqual([
+      { firstStep: 5, lastStep: 6, start: 0, targets: [1, 2] },
+      { firstStep: 7, lastStep: 8, start: 2, targets: [3, 4] },
+    ]);
+    expect(chunkMoves([0, 1, 2], 2)).toEqual([
+      { firstStep: 1, lastStep: 2, start: 0, targets: [1, 2] },
+    ]);
+    expect(chunkMoves([0])).toEqual([]);
+  });
+});
+
+describe('instruction sheets', () => {
+  it('lists rows with the starting nail', () => {
+    const text = toInstructionText(single, { movesPerRow: 3, title: 'Test' });
+    expect(text.split('\n')).toEqual([
+      'Test',
+      '4 nails, 4 strings. Start at nail 0.',
+      'Tick each row once all of its moves are wound.',
+      '',
+      '[ ] 1-3  0 → 2 → 1 → 3',
+      '[ ] 4-4  3 → 0',
+      '',
+    ]);
+  });
+
+  it('gives every thread its own section', () => {
+    const text = toInstructionText(multi);
+    expect(text).toContain('Thread 1: Red (#ff0000), 2 strings. Start at nail 0.');
+    expect(text).toContain('Thread 2: Blue <b> (#0000ff), 1 strings. Start at nail 3.');
+  });
+
+  it('escapes thread names and titles in the HTML sheet', () => {
+    const html = toInstructionHtml(multi, { title: 'A & B' });
+    expect(html).toContain('<title>A &#38; B</title>');
+    expect(html).toContain('Blue &#60;b&#62;');
+    expect(html).not.toContain('Blue <b>');
+  });
+});
+
+describe('escapeMarkup', () => {
+  it('escapes every character that could break out of text or an attribute', () => {
+    expect(escapeMarkup(`<a href="x">'&'</a>`)).toBe('&#60;a href=&#34;x&#34;&#62;&#39;&#38;&#39;&#60;/a&#62;');
+  });
+});
@@ -0,0 +1,210 @@
+import type { GenerationParameters } from './parameters';
+import { countStrings, getPatternBounds, getThreadLayers, isMultiColor } from './pattern';
+import type { Board, Nail, StringArtPattern, ThreadLayer } from './pattern';
+
+export const PATTERN_FILE_FORMAT = 'string-art-pattern';
+// v2 added optional thread layers for multi-color patterns
+export const PATTERN_FILE_VERSION = 2;
+
+// Versioned on-disk representation of a pattern
+export interface PatternFile {
+  format: typeof PATTERN_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: Board;
+  nails: Nail[];
+  lines: number[];
+  layers?: ThreadLayer[];
+  parameters: GenerationParameters | null;
+}
+
+export interface InstructionOptions {
+  movesPerRow?: number;
+  title?: string;
+}
+
+const DEFAULT_MOVES_PER_ROW = 20;
+
+// Thread names and colors come from imported files, so never trust them inside markup
+export const escapeMarkup = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export function toPatternFile(pattern: StringArtPattern, parameters: GenerationParameters | null): PatternFile {
+  const bounds = getPatternBounds(pattern);
+  return {
+    format: PATTERN_FILE_FORMAT,
+    version: PATTERN_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: pattern.board ?? { width: bounds.x + bounds.width, height: bounds.y + bounds.height },
+    nails: pattern.nails,
+    lines: pattern.lines,
+    ...(isMultiColor(pattern) && { layers: pattern.layers }),
+    parameters,
+  };
+}
+
+export const toPatternJson = (pattern: StringArtPattern, parameters: GenerationParameters | null) =>
+  JSON.stringify(toPatternFile(pattern, parameters), null, 2);
+
+/**
+ * One row per string. Multi-color patterns get an extra thread column (1-based
+ * layer number) and a comment line per thread so the colors survive a re-import.
+ * Steps run across all threads in build order, matching build mode.
+ */
+export function toCsv(pattern: StringArtPattern): string {
+  const multiColor = isMultiColor(pattern);
+  const threads = getThreadLayers(pattern);
+  const rows = multiColor
+    ? [...threads.map((thread, index) => `# thread ${index + 1}: ${thread.name}, ${thread.color}, ${thread.opacity}`), 'step,thread,from,to']
+    : ['step,from,to'];
+
+  let step = 0;
+  threads.forEach((thread, index) => {
+    for (let i = 1; i < thread.lines.length; i++) {
+      step++;
+      const from = thread.lines[i - 1];
+      const to = thread.lines[i];
+      rows.push(multiColor ? `${step},${index + 1},${from},${to}` : `${step},${from},${to}`);
+    }
+  });
+  return rows.join('\n') + '\n';
+}
+
+interface InstructionRow {
+  firstStep: number;
+  lastStep: number;
+  start: number;    // Nail the thread sits on at the beginning of the row
+  targets: number[];
+}
+
+// One thread's share of the instructions
+interface InstructionSection {
+  thread: ThreadLayer;
+  strings: number;
+  rows: InstructionRow[];
+}
+
+// Splits a sequence into rows of `movesPerRow` moves each, numbering steps from `firstStep`
+export function chunkMoves(lines: number[], movesPerRow = DEFAULT_MOVES_PER_ROW, firstStep = 1): InstructionRow[] {
+  const rows: InstructionRow[] = [];
+  for (let first = 1; first < lines.length; first += movesPerRow) {
+    const last = Math.min(first + movesPerRow - 1, lines.length - 1);
+    rows.push({
+      firstStep: firstStep + first - 1,
+      lastStep: firstStep + last - 1,
+      start: lines[first - 1],
+      targets: lines.slice(first, last + 1),
+    });
+  }
+  return rows;
+}
+
+// Each thread is wound separately, so the sheet gets one section per color
+function toSections(pattern: StringArtPattern, movesPerRow: number): InstructionSection[] {
+  let nextStep = 1;
+  return getThreadLayers(pattern).map(thread => {
+    const strings = Math.max(0, thread.lines.length - 1);
+    const section = { thread, strings, rows: chunkMoves(thread.lines, movesPerRow, nextStep) };
+    nextStep += strings;
+    return section;
+  });
+}
+
+export function toInstructionText(pattern: StringArtPattern, options: InstructionOptions = {}): string {
+  const { movesPerRow = DEFAULT_MOVES_PER_ROW, title = 'String Art Instructions' } = options;
+  const sections = toSections(pattern, movesPerRow);
+  const stepWidth = String(countStrings(pattern)).length;
+  const multiColor = sections.length > 1;
+
+  const lines = [
+    title,
+    multiColor
+      ? `${pattern.nails.length} nails, ${countStrings(pattern)} strings in ${sections.length} threads.`
+      : `${pattern.nails.length} nails, ${countStrings(pattern)} strings. Start at nail ${sections[0].thread.lines[0] ?? '-'}.`,
+    `Tick each row once all of its moves are wound.`,
+    '',
+  ];
+  sections.forEach(({ thread, strings, rows }, index) => {
+    if (multiColor) {
+      if (index > 0) lines.push('');
+      lines.push(
+        `Thread ${index + 1}: ${thread.name} (${thread.color}), ${strings} strings. Start at nail ${thread.lines[0] ?? '-'}.`,
+      );
+    }
+    for (const row of rows) {
+      const range = `${String(row.firstStep).padStart(stepWidth)}-${String(row.lastStep).padEnd(stepWidth)}`;
+      lines.push(`[ ] ${range}  ${row.start} → ${row.targets.join(' → ')}`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+// Standalone HTML sheet meant to be printed or saved as PDF from the browser
+export function toInstructionHtml(pattern: StringArtPattern, options: InstructionOptions = {}): string {
+  const { movesPerRow = DEFAULT_MOVES_PER_ROW, title = 'String Art Instructions' } = options;
+  const sections = toSections(pattern, movesPerRow);
+  const multiColor = sections.length > 1;
+
+  const body = sections.map(({ thread, strings, rows }, index) => `${multiColor ? `
+  <h2><span class="swatch" style="background: ${escapeMarkup(thread.color)}"></span>Thread ${index + 1}: ${escapeMarkup(thread.name)} · ${strings} strings · start at nail ${thread.lines[0] ?? '-'}</h2>` : ''}
+  <table>${rows.map(row => `
+      <tr>
+        <td class="check"></td>
+        <td class="range">${row.firstStep}–${row.lastStep}</td>
+        <td class="moves"><b>${row.start}</b> → ${row.targets.join(' → ')}</td>
+      </tr>`).join('')}
+  </table>`).join('');
+  const summary = multiColor
+    ? `${pattern.nails.length} nails · ${countStrings(pattern)} strings · ${sections.length} threads`
+    : `${pattern.nails.length} nails · ${countStrings(pattern)} strings · start at nail ${sections[0].thread.lines[0] ?? '-'}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeMarkup(title)}</title>
+  <style>
+    body { font-family: monospace; font-size: 11px; margin: 16px; }
+    h1 { font-size: 16px; margin: 0 0 4px; }
+    h2 { font-size: 13px; margin: 16px 0 6px; page-break-after: avoid; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 6px; border: 1px solid #000; print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    p { margin: 0 0 12px; }
+    table { border-collapse: collapse; width: 100%; }
+    tr { page-break-inside: avoid; }
+    td { border: 1px solid #999; padding: 4px 6px; vertical-align: top; }
+    td.check { width: 14px; }
+    td.check::before { content: ''; display: inline-block; width: 10px; height: 10px; border: 1px solid #000; }
+    td.range { white-space: nowrap; width: 1%; }
+    td.moves { word-spacing: 2px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeMarkup(title)}</h1>
+  <p>${summary}</p>${body}
+</body>
+</html>
+`;
+}
+
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function printHtml(html: string) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked: allow pop-ups for this page to print');
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PATTERN_FILE_VERSION, toCsv, toPatternJson } from './exporters';
+import { PatternImportError, importPatternFiles } from './importers';
+import { DEFAULT_PARAMETERS } from './parameters';
+import type { StringArtPattern } from './pattern';
+
+const nails = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+const single: StringArtPattern = { nails, lines: [0, 2, 1, 3, 0], board: { width: 10, height: 10, shape: 'square' } };
+const multi: StringArtPattern = {
+  nails,
+  lines: [],
+  layers: [
+    { name: 'Red', color: '#ff0000', opacity: 0.5, lines: [0, 2, 1] },
+    { name: 'Blue', color: '#0000ff', opacity: 0.8, lines: [3, 1] },
+  ],
+};
+
+const file = (name: string, content: string) => new File([content], name);
+
+const importError = async (files: File[]) => {
+  const error = await importPatternFiles(files).catch(caught => caught);
+  expect(error).toBeInstanceOf(PatternImportError);
+  return (error as PatternImportError).message;
+};
+
+describe('importPatternFiles', () => {
+  it('reads back a JSON export with its parameters', async () => {
+    const imported = await importPatternFiles([file('portrait.json', toPatternJson(single, DEFAULT_PARAMETERS))]);
+    expect(imported).toEqual({ name: 'portrait', pattern: single, parameters: DEFAULT_PARAMETERS });
+  });
+
+  it('reads a saved /transform response', async () => {
+    const response = JSON.stringify({ base64Image: '', stringArt: { nails, lines: [[0, 2], [2, 1]] } });
+    const { pattern } = await importPatternFiles([file('response.json', response)]);
+    expect(pattern).toEqual({ nails, lines: [0, 2, 1] });
+  });
+
+  it('refuses exports from a newer format version', async () => {
+    const newer = JSON.stringify({ ...JSON.parse(toPatternJson(single, null)), version: PATTERN_FILE_VERSION + 1 });
+    expect(await importError([file('newer.json', newer)])).toContain('newer version of the app');
+  });
+
+  it('lists what is wrong with an invalid JSON pattern', async () => {
+    const error = await importPatternFiles([file('bad.json', JSON.stringify({ nails, lines: [0, 9] }))]).catch(caught => caught);
+    expect(error).toBeInstanceOf(PatternImportError);
+    expect(error.issues).toEqual(['bad.json.lines[1] references nail 9, expected 0-3']);
+    expect(await importError([file('broken.json', '{ nails')])).toBe('broken.json is not valid JSON');
+  });
+
+  it('lays a CSV sequence out on a circle of as many nails as it uses', async () => {
+    const { name, pattern } = await importPatternFiles([file('steps.csv', toCsv(single))]);
+    expect(name).toBe('steps');
+    expect(pattern.lines).toEqual(single.lines);
+    expect(pattern.nails).toHaveLength(4);
+    expect(pattern.board).toEqual({ width: 300, height: 300, shape: 'circle' });
+  });
+
+  it('reads a plain sequence in any common separator', async () => {
+    const { pattern } = await importPatternFiles([file('sequence.txt', '0 -> 5; 2\n7 → 1')]);
+    expect(pattern.lines).toEqual([0, 5, 2, 7, 1]);
+    expect(pattern.nails).toHaveLength(8);
+  });
+
+  it('restores the threads of a multi-color CSV export', async () => {
+    const { pattern } = await importPatternFiles([file('colors.csv', toCsv(multi))]);
+    expect(pattern.layers).toEqual(multi.layers);
+  });
+
+  it('pairs a coordinates file with a sequence file in either order', async () => {
+    const coordinates = file('nails.csv', 'x,y\n0,0\n10,0\n10,10\n0,10\n');
+    const sequence = file('sequence.csv', '0,2,1,3\n');
+    for (const files of [[coordinates, sequence], [sequence, coordinates]]) {
+      const { pattern } = await importPatternFiles(files);
+      expect(pattern).toEqual({ nails, lines: [0, 2, 1, 3] });
+    }
+  });
+
+  it('explains files it cannot use', async () => {
+    expect(await importError([])).toBe('No file selected');
+    expect(await importError([file('nails.csv', 'x,y\n0.5,1.5\n2.5,3.5\n')])).toContain('only contains nail coordinates');
+    expect(await importError([file('notes.txt', '1,2\nfoo bar\n')])).toContain('line 2: "foo bar" is not a list of numbers');
+    expect(await importError([file('pairs.csv', '0,1\n2,3\n')])).toContain('does not start at nail 1');
+    expect(await importError([file('huge.txt', '0 5000')])).toContain('at most 1000 nails are supported');
+  });
+});
@@ -0,0 +1,269 @@
+import { PATTERN_FILE_FORMAT, PATTERN_FILE_VERSION } from './exporters';
+import { PARAMETER_LIMITS } from './parameters';
+import type { GenerationParameters } from './parameters';
+import { DEFAULT_THREAD, PatternFormatError, pairsToSequence } from './pattern';
+import type { Nail, StringArtPattern, ThreadLayer } from './pattern';
+import { isRecord, parseParameters, parsePatternData, summarizeIssues } from './patternValidation';
+import { generateEllipseNails } from '../solver/stringArtSolver';
+
+export interface ImportedPattern {
+  name: string;
+  pattern: StringArtPattern;
+  parameters: GenerationParameters | null;
+}
+
+export class PatternImportError extends PatternFormatError {
+  constructor(message: string, issues: string[] = []) {
+    super(message, issues);
+    this.name = 'PatternImportError';
+  }
+}
+
+export const IMPORT_ACCEPT = '.json,.csv,.txt,application/json,text/csv,text/plain';
+
+// Board used when a sequence file carries no nail coordinates of its own
+const DEFAULT_IMPORT_SIZE = 300;
+
+// Thread colors for multi-color sequences whose file does not name them
+const FALLBACK_THREAD_COLORS = ['#00bcd4', '#e91e63', '#ffeb3b', '#212121', '#4caf50', '#ff5722'];
+
+// "# thread 2: Magenta, #e91e63, 0.6" as written by the CSV export
+const THREAD_COMMENT = /^#\s*thread\s+(\d+):\s*(.+),\s*([^,\s]+),\s*([\d.]+)$/i;
+
+interface Table {
+  fileName: string;
+  header: string[] | null;
+  rows: number[][];
+  threads: Map<number, Omit<ThreadLayer, 'lines'>>;
+}
+
+interface SequenceContent {
+  lines: number[];
+  layers?: ThreadLayer[];
+}
+
+type TextContent =
+  | { kind: 'coordinates'; nails: Nail[] }
+  | ({ kind: 'sequence' } & SequenceContent);
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const looksLikeJson = (file: File, text: string) =>
+  file.name.toLowerCase().endsWith('.json') || /^\s*[{[]/.test(text);
+
+function parseJsonFile(fileName: string, text: string): ImportedPattern {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PatternImportError(`${fileName} is not valid JSON`);
+  }
+
+  if (!isRecord(data)) {
+    throw new PatternImportError(`${fileName} does not contain a pattern object`);
+  }
+
+  if (data.format === PATTERN_FILE_FORMAT && typeof data.version === 'number' && data.version > PATTERN_FILE_VERSION) {
+    throw new PatternImportError(
+      `${fileName} was exported by a newer version of the app (format v${data.version}, supported up to v${PATTERN_FILE_VERSION})`
+    );
+  }
+
+  // Our own export, a saved /transform response, or a bare { nails, lines } object
+  const source = isRecord(data.stringArt) ? data.stringArt : data;
+  const issues: string[] = [];
+  const pattern = parsePatternData(source, fileName, issues);
+  if (issues.length > 0) {
+    throw new PatternImportError(`${fileName} is not a valid pattern: ${summarizeIssues(issues)}`, issues);
+  }
+
+  return { name: baseName(fileName), pattern, parameters: parseParameters(data.parameters) };
+}
+
+function readTable(fileName: string, text: string): Table {
+  const rows: number[][] = [];
+  const threads: Table['threads'] = new Map();
+  let header: string[] | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const thread = THREAD_COMMENT.exec(line);
+    if (thread) {
+      threads.set(Number(thread[1]), { name: thread[2].trim(), color: thread[3], opacity: Number(thread[4]) });
+      return;
+    }
+    if (line === '' || line.startsWith('#')) return;
+
+    const tokens = line.split(/\s*(?:,|;|->|→|\s)\s*/).filter(token => token !== '');
+    const values = tokens.map(Number);
+    if (values.every(Number.isFinite)) {
+      rows.push(values);
+    } else if (rows.length === 0 && header === null) {
+      header = tokens.map(token => token.toLowerCase());
+    } else {
+      throw new PatternImportError(`${fileName} line ${index + 1}: "${line}" is not a list of numbers`);
+    }
+  });
+
+  if (rows.length === 0) {
+    throw new PatternImportError(`${fileName} does not contain any numbers`);
+  }
+  return { fileName, header, rows, threads };
+}
+
+const couldBeCoordinates = (table: Table) =>
+  table.rows.every(row => row.length === 2 || row.length === 3);
+
+function toCoordinates(table: Table): Nail[] {
+  const xColumn = table.header?.indexOf('x') ?? -1;
+  const yColumn = table.header?.indexOf('y') ?? -1;
+  return table.rows.map(row => ({
+    // Without a header, the last two columns are x and y (an optional index may come first)
+    x: xColumn >= 0 ? row[xColumn] : row[row.length - 2],
+    y: yColumn >= 0 ? row[yColumn] : row[row.length - 1],
+  }));
+}
+
+function toSequence(table: Table): number[] {
+  const { header, rows, fileName } = table;
+  const fromColumn = header?.indexOf('from') ?? -1;
+  const toColumn = header?.indexOf('to') ?? -1;
+
+  const allIntegers = rows.every(row => row.every(Number.isInteger));
+  if (!allIntegers) {
+    throw new PatternImportError(`${fileName} contains non-integer nail indices`);
+  }
+
+  // step,from,to (our CSV export) or plain from,to pairs
+  const isStepTable = rows.every((row, index) => row.length === 3 && row[0] === index + 1);
+  const isPairTable = rows.length > 1 && rows.every(row => row.length === 2);
+  if ((fromColumn >= 0 && toColumn >= 0) || isStepTable || isPairTable) {
+    const from = fromColumn >= 0 ? fromColumn : isStepTable ? 1 : 0;
+    const to = toColumn >= 0 ? toColumn : isStepTable ? 2 : 1;
+    try {
+      return pairsToSequence(rows.map(row => [row[from], row[to]] as [number, number]));
+    } catch (error) {
+      throw new PatternImportError(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Anything else is read as a flat nail sequence, in reading order
+  return rows.flat();
+}
+
+// Sequences with a thread column (our multi-color CSV export) become one layer per thread
+function toSequenceContent(table: Table): SequenceContent {
+  const threadColumn = table.header?.indexOf('thread') ?? -1;
+  if (threadColumn < 0) {
+    return { lines: toSequence(table) };
+  }
+
+  const header = table.header?.filter((_, column) => column !== threadColumn) ?? null;
+  const groups = new Map<number, number[][]>();
+  for (const row of table.rows) {
+    const thread = row[threadColumn];
+    if (!groups.has(thread)) {
+      groups.set(thread, []);
+    }
+    groups.get(thread)?.push(row.filter((_, column) => column !== threadColumn));
+  }
+
+  const layers = [...groups.keys()].sort((a, b) => a - b).map((thread, index) => ({
+    name: `Thread ${thread}`,
+    color: FALLBACK_THREAD_COLORS[index % FALLBACK_THREAD_COLORS.length],
+    opacity: DEFAULT_THREAD.opacity,
+    ...table.threads.get(thread),
+    lines: toSequence({ ...table, header, rows: groups.get(thread) ?? [] }),
+  }));
+  return { lines: [], layers };
+}
+
+// Coordinates are recognised by an x/y header or by fractional values in 2-3 column rows
+function isCoordinateTable(table: Table): boolean {
+  const header = table.header ?? [];
+  const hasXY = header.includes('x') && header.includes('y');
+  const hasFractions = table.rows.some(row => row.some(value => !Number.isInteger(value)));
+  return hasXY || (couldBeCoordinates(table) && hasFractions);
+}
+
+function classify(table: Table): TextContent {
+  return isCoordinateTable(table)
+    ? { kind: 'coordinates', nails: toCoordinates(table) }
+    : { kind: 'sequence', ...toSequenceContent(table) };
+}
+
+// Picks which of two text files holds the nail coordinates
+function pairUp(tables: Table[]): { nails: Nail[] } & SequenceContent {
+  let coordinateIndex = tables.findIndex(isCoordinateTable);
+  if (coordinateIndex < 0) {
+    // Integer coordinates without a header are indistinguishable from pairs, so fall back on the file name
+    coordinateIndex = tables.findIndex(table => couldBeCoordinates(table) && /coord|nail|xy/i.test(table.fileName));
+  }
+  if (coordinateIndex < 0) {
+    throw new PatternImportError('Could not tell which file holds the nail coordinates; add an "x,y" header row to it');
+  }
+
+  const sequenceTable = tables[1 - coordinateIndex];
+  if (isCoordinateTable(sequenceTable)) {
+    throw new PatternImportError('Both files look like nail coordinates; one of them has to be the sequence');
+  }
+  return { nails: toCoordinates(tables[coordinateIndex]), ...toSequenceContent(sequenceTable) };
+}
+
+/**
+ * Loads a pattern from one of the supported file layouts:
+ *  - a JSON pattern export (or any JSON with nails and lines),
+ *  - a CSV/TXT nail sequence, laid out on a circle of max(index) + 1 nails
+ *    (with a thread column, each thread becomes a color layer),
+ *  - a nail coordinates file plus a sequence file.
+ */
+export async function importPatternFiles(files: File[]): Promise<ImportedPattern> {
+  if (files.length === 0) {
+    throw new PatternImportError('No file selected');
+  }
+  if (files.length > 2) {
+    throw new PatternImportError('Select a single pattern file, or one coordinates file and one sequence file');
+  }
+
+  const texts = await Promise.all(files.map(file => file.text()));
+
+  if (files.length === 1 && looksLikeJson(files[0], texts[0])) {
+    return parseJsonFile(files[0].name, texts[0]);
+  }
+  if (files.some((file, index) => looksLikeJson(file, texts[index]))) {
+    throw new PatternImportError('JSON pattern files already contain the nail coordinates; import them on their own');
+  }
+
+  const tables = files.map((file, index) => readTable(file.name, texts[index]));
+  let nails: Nail[];
+  let sequence: SequenceContent;
+  let board: StringArtPattern['board'];
+
+  if (tables.length === 2) {
+    ({ nails, ...sequence } = pairUp(tables));
+  } else {
+    const content = classify(tables[0]);
+    if (content.kind === 'coordinates') {
+      throw new PatternImportError(`${files[0].name} only contains nail coordinates; add the sequence file too`);
+    }
+    sequence = content;
+    const used = sequence.layers ? sequence.layers.flatMap(layer => layer.lines) : sequence.lines;
+    // Sequences can be long enough to overflow the argument list of Math.max
+    const nailCount = used.reduce((max, nail) => Math.max(max, nail), -1) + 1;
+    if (nailCount > PARAMETER_LIMITS.nailCount.max) {
+      throw new PatternImportError(
+        `${files[0].name} uses nail ${nailCount - 1}; without a coordinates file at most ${PARAMETER_LIMITS.nailCount.max} nails are supported`,
+      );
+    }
+    nails = generateEllipseNails(nailCount, DEFAULT_IMPORT_SIZE, DEFAULT_IMPORT_SIZE);
+    board = { width: DEFAULT_IMPORT_SIZE, height: DEFAULT_IMPORT_SIZE, shape: 'circle' };
+  }
+
+  const issues: string[] = [];
+  const pattern = parsePatternData({ nails, lines: sequence.lines, layers: sequence.layers, board }, 'pattern', issues);
+  if (issues.length > 0) {
+    throw new PatternImportError(`The imported pattern is not valid: ${summarizeIssues(issues)}`, issues);
+  }
+
+  return { name: baseName(files[0].name), pattern, parameters: null };
+}
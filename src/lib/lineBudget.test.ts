@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { applyTrim, budgetState, planTrim } from './lineBudget';
+import { countStrings, getThreadLayers } from './pattern';
+import type { StringArtPattern } from './pattern';
+import { createStringRenderer, rmse } from './quality';
+import type { DarknessImage } from './quality';
+import { DEFAULT_SOLVER_OPTIONS, solveStringArt } from '../solver/stringArtSolver';
+
+const SIZE = 40;
+const LINE_WEIGHT = 60;
+
+// Dark on the left half only
+const source: DarknessImage = {
+  width: SIZE,
+  height: SIZE,
+  data: Float32Array.from({ length: SIZE * SIZE }, (_, i) => (i % SIZE < SIZE / 2 ? 200 : 0)),
+};
+
+const pattern = solveStringArt(source.data, {
+  ...DEFAULT_SOLVER_OPTIONS,
+  size: SIZE,
+  nailCount: 30,
+  maxLines: 60,
+  minDistance: 4,
+  lineWeight: LINE_WEIGHT,
+  seed: 7,
+});
+
+const renderedRmse = (trimmed: StringArtPattern) => {
+  const renderer = createStringRenderer(trimmed, SIZE, SIZE, LINE_WEIGHT);
+  renderer.advanceTo(Infinity);
+  return rmse(source.data, renderer.image.data);
+};
+
+// Each thread of `trimmed` has to be what is left of the same thread in `original` after taking visits out
+const isSubsequence = (part: number[], whole: number[]) => {
+  let i = 0;
+  for (const nail of whole) if (nail === part[i]) i++;
+  return i === part.length;
+};
+
+describe('planTrim', () => {
+  const plan = planTrim(pattern, source, LINE_WEIGHT);
+
+  it('measures the untrimmed pattern the way the renderer does', () => {
+    expect(plan.strings).toBe(countStrings(pattern));
+    expect(plan.rmse).toBeCloseTo(renderedRmse(pattern), 6);
+  });
+
+  it('removes strings step by step down to none', () => {
+    let strings = plan.strings;
+    for (const step of plan.steps) {
+      expect(step.strings).toBeLessThan(strings);
+      strings = step.strings;
+    }
+    expect(strings).toBe(0);
+  });
+
+  it('tracks the error of every trimmed pattern exactly', () => {
+    for (const budget of [plan.strings - 1, Math.round(plan.strings / 2), 3]) {
+      const state = budgetState(plan, budget);
+      const trimmed = applyTrim(pattern, plan, budget);
+      expect(countStrings(trimmed)).toBe(state.strings);
+      expect(state.rmse).toBeCloseTo(renderedRmse(trimmed), 6);
+    }
+  });
+
+  it('drops strings that only add error first', () => {
+    const blank = { ...source, data: new Float32Array(SIZE * SIZE) };
+    const blankPlan = planTrim(pattern, blank, LINE_WEIGHT);
+    blankPlan.steps.reduce((rmse, step) => {
+      expect(step.rmse).toBeLessThanOrEqual(rmse);
+      return step.rmse;
+    }, blankPlan.rmse);
+    expect(blankPlan.steps.at(-1)?.rmse).toBe(0);
+  });
+
+  it('handles several threads and drops the ones left empty', () => {
+    const multi: StringArtPattern = {
+      nails: pattern.nails,
+      board: pattern.board,
+      lines: [],
+      layers: [
+        { name: 'A', color: '#000', opacity: 1, lines: pattern.lines.slice(0, 30) },
+        { name: 'B', color: '#fff', opacity: 1, lines: pattern.lines.slice(29) },
+      ],
+    };
+    const multiPlan = planTrim(multi, source, LINE_WEIGHT);
+    expect(multiPlan.rmse).toBeCloseTo(plan.rmse, 6);
+    const trimmed = applyTrim(multi, multiPlan, 10);
+    expect(countStrings(trimmed)).toBeLessThanOrEqual(10);
+    getThreadLayers(trimmed).forEach(thread => {
+      expect(thread.lines.length).toBeGreaterThan(1);
+      const original = multi.layers?.find(layer => layer.name === thread.name);
+      expect(isSubsequence(thread.lines, original?.lines ?? [])).toBe(true);
+    });
+    expect(countStrings(applyTrim(multi, multiPlan, 0))).toBe(0);
+  });
+});
+
+describe('budgetState', () => {
+  const plan = {
+    strings: 5,
+    rmse: 0.5,
+    steps: [
+      { visits: [0], strings: 4, rmse: 0.4 },
+      { visits: [3, 4], strings: 2, rmse: 0.3 },
+      { visits: [1], strings: 1, rmse: 0.6 },
+    ],
+  };
+
+  it('takes the fewest steps that get within the budget', () => {
+    expect(budgetState(plan, 5)).toEqual({ steps: 0, strings: 5, rmse: 0.5 });
+    expect(budgetState(plan, 3)).toEqual({ steps: 2, strings: 2, rmse: 0.3 });
+    expect(budgetState(plan, 0)).toEqual({ steps: 3, strings: 1, rmse: 0.6 });
+  });
+
+  it('leaves the pattern alone without a trim', () => {
+    expect(applyTrim(pattern, plan, 5)).toBe(pattern);
+  });
+
+  it('keeps every thread one continuous path of the original visits', () => {
+    const trimmed = applyTrim({ nails: pattern.nails, lines: [0, 5, 10, 15, 20, 25] }, plan, 2);
+    expect(trimmed.lines).toEqual([5, 10, 25]);
+  });
+});
@@ -0,0 +1,265 @@
+import { getThreadLayers, isMultiColor } from './pattern';
+import type { StringArtPattern } from './pattern';
+import { gridNails } from './quality';
+import type { DarknessImage } from './quality';
+import { rasterizeLine } from '../solver/stringArtSolver';
+
+/*
+ * Line budget: trims a pattern by taking nail visits out of its threads,
+ * so each thread still runs as one continuous path. Dropping a visit in the
+ * middle of a thread merges the two strings around it into one straight
+ * string past that nail; dropping the first or last visit removes one
+ * string from the end. Visits are picked greedily by how much the image
+ * error grows per string saved, measured the way the solver models thread.
+ */
+
+export interface TrimStep {
+  visits: number[];  // Nail visits taken out, numbered across all threads in build order
+  strings: number;   // Strings left afterwards
+  rmse: number;      // Error against the source afterwards, 0-1
+}
+
+export interface TrimPlan {
+  strings: number;    // Strings of the untrimmed pattern
+  rmse: number;       // Error of the untrimmed pattern
+  steps: TrimStep[];  // Removals in the order they are made, down to no strings at all
+}
+
+// Where a plan stands once it is within a budget
+export interface TrimState {
+  steps: number;    // Leading plan steps to apply
+  strings: number;
+  rmse: number;
+}
+
+interface Candidate {
+  cost: number;     // Error change per string saved; negative when the strings do more harm than good
+  visit: number;
+  version: number;  // Neighbors of the visit at the time the cost was computed
+  stamp: number;    // Removals made so far at that time
+}
+
+// Binary min-heap on cost
+class CandidateQueue {
+  private items: Candidate[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate) {
+    const { items } = this;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= item.cost) break;
+      items[i] = items[parent];
+      i = parent;
+    }
+    items[i] = item;
+  }
+
+  pop(): Candidate | undefined {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || !last) return top;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      if (left >= items.length) break;
+      const child = left + 1 < items.length && items[left + 1].cost < items[left].cost ? left + 1 : left;
+      if (items[child].cost >= last.cost) break;
+      items[i] = items[child];
+      i = child;
+    }
+    items[i] = last;
+    return top;
+  }
+}
+
+/**
+ * Works out the order in which to drop strings, from the full pattern down
+ * to none. `source` is the processed image as a darkness map; the pattern
+ * is fitted onto its grid like createStringRenderer does.
+ */
+export function planTrim(pattern: StringArtPattern, source: DarknessImage, lineWeight: number): TrimPlan {
+  const { width, height } = source;
+  const nails = gridNails(pattern, width, height);
+  const nailCount = nails.length;
+
+  // Every nail visit of every thread, doubly linked within its thread (-1 at the ends)
+  const nailOf: number[] = [];
+  const prev: number[] = [];
+  const next: number[] = [];
+  let strings = 0;
+  getThreadLayers(pattern).forEach(thread => {
+    const start = nailOf.length;
+    thread.lines.forEach((nail, i) => {
+      nailOf.push(nail);
+      prev.push(i > 0 ? start + i - 1 : -1);
+      next.push(i < thread.lines.length - 1 ? start + i + 1 : -1);
+    });
+    strings += Math.max(0, thread.lines.length - 1);
+  });
+  const removed = new Uint8Array(nailOf.length);
+  const version = new Uint32Array(nailOf.length);
+
+  // Merged strings keep coming back while the plan runs, so their pixels are kept
+  const lineCache = new Map<number, number[]>();
+  const pixelsOf = (from: number, to: number) => {
+    const key = from * nailCount + to;
+    let pixels = lineCache.get(key);
+    if (!pixels) {
+      pixels = nails[from] && nails[to] ? rasterizeLine(nails[from], nails[to], width, height) : [];
+      lineCache.set(key, pixels);
+    }
+    return pixels;
+  };
+
+  // Strings crossing each pixel; the render darkens by lineWeight per string, capped at black
+  const coverage = new Uint16Array(width * height);
+  const pixelError = (pixel: number, count: number) => {
+    const diff = Math.min(255, count * lineWeight) - source.data[pixel];
+    return diff * diff;
+  };
+  for (let visit = 0; visit < nailOf.length; visit++) {
+    if (next[visit] === -1) continue;
+    for (const pixel of pixelsOf(nailOf[visit], nailOf[next[visit]])) coverage[pixel]++;
+  }
+  let error = 0;
+  for (let pixel = 0; pixel < coverage.length; pixel++) error += pixelError(pixel, coverage[pixel]);
+  const toRmse = (sum: number) => (coverage.length > 0 ? Math.sqrt(Math.max(0, sum) / coverage.length) / 255 : 0);
+  const plan: TrimPlan = { strings, rmse: toRmse(error), steps: [] };
+  const { steps } = plan;
+
+  // What taking a visit out does: strings lost, strings gained and any neighbor that goes with it
+  const removalOf = (visit: number) => {
+    const before = prev[visit];
+    const after = next[visit];
+    const lost: [number, number][] = [];
+    const gained: [number, number][] = [];
+    let merged = -1;
+    if (before !== -1) lost.push([nailOf[before], nailOf[visit]]);
+    if (after !== -1) lost.push([nailOf[visit], nailOf[after]]);
+    if (before !== -1 && after !== -1) {
+      if (nailOf[before] === nailOf[after]) {
+        // The thread would go out and straight back; the repeated nail goes too
+        merged = after;
+      } else {
+        gained.push([nailOf[before], nailOf[after]]);
+      }
+    }
+    return { lost, gained, merged, saved: lost.length - gained.length };
+  };
+
+  // Pixel counts change together, so overlapping strings are accounted for exactly
+  const delta = new Int16Array(coverage.length);
+  const touched: number[] = [];
+  const shift = (from: number, to: number, amount: number) => {
+    for (const pixel of pixelsOf(from, to)) {
+      if (delta[pixel] === 0) touched.push(pixel);
+      delta[pixel] += amount;
+    }
+  };
+  const errorChange = (removal: ReturnType<typeof removalOf>, commit: boolean) => {
+    removal.lost.forEach(([from, to]) => shift(from, to, -1));
+    removal.gained.forEach(([from, to]) => shift(from, to, 1));
+    let change = 0;
+    for (const pixel of touched) {
+      const count = coverage[pixel];
+      change += pixelError(pixel, count + delta[pixel]) - pixelError(pixel, count);
+      if (commit) coverage[pixel] = count + delta[pixel];
+      delta[pixel] = 0;
+    }
+    touched.length = 0;
+    return change;
+  };
+
+  const queue = new CandidateQueue();
+  const evaluate = (visit: number) => {
+    if (removed[visit] || (prev[visit] === -1 && next[visit] === -1)) return;
+    const removal = removalOf(visit);
+    queue.push({
+      cost: errorChange(removal, false) / removal.saved,
+      visit,
+      version: version[visit],
+      stamp: steps.length,
+    });
+  };
+  for (let visit = 0; visit < nailOf.length; visit++) evaluate(visit);
+
+  while (queue.size > 0) {
+    const candidate = queue.pop()!;
+    const { visit } = candidate;
+    if (removed[visit] || candidate.version !== version[visit]) continue;
+
+    // Costs only drift through shared pixels, so a re-checked cost that still beats the rest is taken
+    if (candidate.stamp !== steps.length) {
+      const removal = removalOf(visit);
+      const cost = errorChange(removal, false) / removal.saved;
+      const runnerUp = queue.peek();
+      if (runnerUp && cost > runnerUp.cost) {
+        queue.push({ cost, visit, version: version[visit], stamp: steps.length });
+        continue;
+      }
+    }
+
+    const removal = removalOf(visit);
+    error += errorChange(removal, true);
+    strings -= removal.saved;
+
+    const visits = removal.merged === -1 ? [visit] : [visit, removal.merged];
+    visits.forEach(gone => {
+      removed[gone] = 1;
+      const before = prev[gone];
+      const after = next[gone];
+      if (before !== -1) next[before] = after;
+      if (after !== -1) prev[after] = before;
+    });
+    steps.push({ visits, strings, rmse: toRmse(error) });
+
+    // The visits on either side now have other neighbors
+    const before = prev[visits[visits.length - 1]];
+    const after = next[visits[visits.length - 1]];
+    [before, after].forEach(neighbor => {
+      if (neighbor === -1) return;
+      version[neighbor]++;
+      evaluate(neighbor);
+    });
+  }
+
+  return plan;
+}
+
+// The fewest removals that bring the pattern down to `budget` strings or below
+export function budgetState(plan: TrimPlan, budget: number): TrimState {
+  let state: TrimState = { steps: 0, strings: plan.strings, rmse: plan.rmse };
+  for (let i = 0; i < plan.steps.length && state.strings > budget; i++) {
+    state = { steps: i + 1, strings: plan.steps[i].strings, rmse: plan.steps[i].rmse };
+  }
+  return state;
+}
+
+// The pattern trimmed to `budget` strings; threads left without strings are dropped
+export function applyTrim(pattern: StringArtPattern, plan: TrimPlan, budget: number): StringArtPattern {
+  const { steps } = budgetState(plan, budget);
+  if (steps === 0) return pattern;
+  const removed = new Set(plan.steps.slice(0, steps).flatMap(step => step.visits));
+
+  let visit = 0;
+  const threads = getThreadLayers(pattern).map(thread => {
+    const lines = thread.lines.filter(() => !removed.has(visit++));
+    return { ...thread, lines: lines.length > 1 ? lines : [] };
+  });
+
+  if (!isMultiColor(pattern)) {
+    return { ...pattern, lines: threads[0].lines };
+  }
+  return { ...pattern, layers: threads.filter(thread => thread.lines.length > 0) };
+}
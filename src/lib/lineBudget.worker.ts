@@ -0,0 +1,25 @@
+import { planTrim } from './lineBudget';
+import type { TrimPlan } from './lineBudget';
+import type { StringArtPattern } from './pattern';
+import type { DarknessImage } from './quality';
+
+export type TrimRequest = {
+  pattern: StringArtPattern;
+  source: DarknessImage;
+  lineWeight: number;
+};
+
+export type TrimResponse =
+  | { type: 'done'; plan: TrimPlan }
+  | { type: 'error'; message: string };
+
+const post = (message: TrimResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<TrimRequest>) => {
+  const { pattern, source, lineWeight } = event.data;
+  try {
+    post({ type: 'done', plan: planTrim(pattern, source, lineWeight) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
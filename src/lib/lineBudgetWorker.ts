@@ -0,0 +1,54 @@
+import type { TrimPlan } from './lineBudget';
+import type { TrimRequest, TrimResponse } from './lineBudget.worker';
+import type { StringArtPattern } from './pattern';
+import type { DarknessImage } from './quality';
+
+/**
+ * Plans a trim in a dedicated worker, since ranking thousands of strings
+ * takes long enough to freeze the page. Aborting terminates the worker.
+ */
+export function planTrimInWorker(
+  pattern: StringArtPattern,
+  source: DarknessImage,
+  lineWeight: number,
+  signal?: AbortSignal,
+): Promise<TrimPlan> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Ranking cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./lineBudget.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Ranking cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<TrimResponse>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'done') {
+        resolve(message.plan);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Line budget worker failed'));
+    };
+
+    const request: TrimRequest = { pattern, source, lineWeight };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LAYOUT, LAYOUT_SIZE, generateLayout, layoutNailCount, validateLayout, withLayout } from './nailLayout';
+import type { NailLayoutSettings } from './nailLayout';
+import { DEFAULT_PARAMETERS } from './parameters';
+
+const layout = (overrides: Partial<NailLayoutSettings>): NailLayoutSettings => ({ ...DEFAULT_LAYOUT, ...overrides });
+
+const inside = ({ nails, board }: ReturnType<typeof generateLayout>) =>
+  nails.every(nail => nail.x >= 0 && nail.x <= board.width && nail.y >= 0 && nail.y <= board.height);
+
+describe('generateLayout', () => {
+  it('rings a square board with a circle of nails', () => {
+    const result = generateLayout(layout({ nailCount: 100 }));
+    expect(result.nails).toHaveLength(100);
+    expect(result.board).toEqual({ width: LAYOUT_SIZE, height: LAYOUT_SIZE, shape: 'circle' });
+    expect(inside(result)).toBe(true);
+    const center = LAYOUT_SIZE / 2;
+    for (const nail of result.nails) {
+      expect(Math.hypot(nail.x - center, nail.y - center)).toBeCloseTo(center - 1);
+    }
+  });
+
+  it('keeps the asked aspect ratio for ellipses and rectangles', () => {
+    expect(generateLayout(layout({ aspectRatio: 2 })).board).toEqual({ width: 300, height: 150, shape: 'ellipse' });
+    const rectangle = generateLayout(layout({ shape: 'rectangle', aspectRatio: 0.5, sideCounts: [10, 20, 10, 20] }));
+    expect(rectangle.board).toEqual({ width: 150, height: 300, shape: 'rectangle' });
+    expect(rectangle.nails).toHaveLength(60);
+    expect(inside(rectangle)).toBe(true);
+  });
+
+  it('swaps the board sides for a quarter turn and drops the outline for other angles', () => {
+    const turned = generateLayout(layout({ shape: 'rectangle', aspectRatio: 2, rotation: 90 }));
+    expect(turned.board).toEqual({ width: 150, height: 300, shape: 'rectangle' });
+    expect(inside(turned)).toBe(true);
+    const tilted = generateLayout(layout({ shape: 'rectangle', aspectRatio: 2, rotation: 45 }));
+    expect(tilted.board.shape).toBeUndefined();
+    expect(tilted.board.width).toBe(tilted.board.height);
+  });
+
+  it('spreads polygon nails over its sides and keeps a margin free', () => {
+    const result = generateLayout(layout({ shape: 'polygon', sides: 4, nailCount: 42, margin: 0.1 }));
+    expect(result.nails).toHaveLength(42);
+    const free = 1 + 0.1 * LAYOUT_SIZE;
+    for (const nail of result.nails) {
+      expect(Math.min(nail.x, nail.y, result.board.width - nail.x, result.board.height - nail.y)).toBeGreaterThanOrEqual(free - 1e-9);
+    }
+  });
+
+  it('crowds nails towards the corners with a corner bias', () => {
+    const side = (bias: number) => generateLayout(layout({ shape: 'rectangle', sideCounts: [20, 20, 20, 20], cornerBias: bias })).nails;
+    const gap = (nails: { x: number; y: number }[]) => Math.hypot(nails[1].x - nails[0].x, nails[1].y - nails[0].y);
+    expect(gap(side(0.8))).toBeLessThan(gap(side(0)));
+  });
+});
+
+describe('validateLayout', () => {
+  it('accepts the defaults', () => {
+    expect(validateLayout(DEFAULT_LAYOUT)).toEqual({});
+  });
+
+  it('checks the fields the shape uses', () => {
+    expect(validateLayout(layout({ nailCount: 5 }))).toHaveProperty('nailCount');
+    expect(validateLayout(layout({ shape: 'polygon', sides: 2 }))).toHaveProperty('sides');
+    expect(validateLayout(layout({ shape: 'rectangle', sideCounts: [1, 1, 1, 1] })).sideCounts).toContain('add up to');
+    expect(validateLayout(layout({ shape: 'rectangle', sideCounts: [10.5, 10, 10, 10] })).sideCounts).toContain('whole number');
+    expect(validateLayout(layout({ shape: 'path', path: ' ' }))).toHaveProperty('path');
+    expect(validateLayout(layout({ rotation: 270, margin: 0.5 }))).toEqual({
+      rotation: 'Must be between -180 and 180',
+      margin: 'Must be between 0 and 0.2',
+    });
+  });
+
+  it('counts rectangle nails per side', () => {
+    expect(layoutNailCount(layout({ shape: 'rectangle', sideCounts: [1, 2, 3, 4] }))).toBe(10);
+  });
+});
+
+describe('withLayout', () => {
+  it('makes the parameters agree with the custom board', () => {
+    const result = generateLayout(layout({ shape: 'polygon', nailCount: 120 }));
+    expect(withLayout(DEFAULT_PARAMETERS, result)).toEqual({
+      ...DEFAULT_PARAMETERS,
+      nailCount: 120,
+      boardShape: 'rectangle',
+      aspectRatio: Math.round((result.board.width / result.board.height) * 1000) / 1000,
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { PARAMETER_LIMITS, boardDimensions } from './parameters';
+import type { BoardShape, GenerationParameters } from './parameters';
+import type { Board, Nail } from './pattern';
+
+export type LayoutShape = 'circle' | 'polygon' | 'rectangle' | 'path';
+
+export const LAYOUT_SHAPES: { value: LayoutShape; label: string }[] = [
+  { value: 'circle', label: 'Circle / ellipse' },
+  { value: 'polygon', label: 'Regular polygon' },
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'path', label: 'SVG path' },
+];
+
+export type SideCounts = [top: number, right: number, bottom: number, left: number];
+
+export interface NailLayoutSettings {
+  shape: LayoutShape;
+  nailCount: number;        // Circles, polygons and paths; rectangles count per side
+  sides: number;            // Polygons only
+  sideCounts: SideCounts;   // Rectangles only, each side starting at its clockwise corner
+  aspectRatio: number;      // Board width / height of circles and rectangles
+  path: string;             // SVG path data, scaled to fit the board
+  rotation: number;         // Degrees clockwise around the board center
+  offset: number;           // Shift along the outline, as a fraction of the nail spacing
+  cornerBias: number;       // 0 spaces nails evenly; higher crowds them towards polygon and rectangle corners
+  margin: number;           // Free border around the nails, as a fraction of the board's longer side
+}
+
+// Explicit nail positions that replace the solver's standard ring
+export interface NailPositions {
+  nails: Nail[];
+  board: Board;
+}
+
+export type LayoutErrors = Partial<Record<keyof NailLayoutSettings, string>>;
+
+export class NailLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NailLayoutError';
+  }
+}
+
+const HEART_PATH = 'M 50 30 C 50 10 80 0 95 20 C 110 45 80 70 50 95 C 20 70 -10 45 5 20 C 20 0 50 10 50 30 Z';
+
+export const DEFAULT_LAYOUT: NailLayoutSettings = {
+  shape: 'circle',
+  nailCount: 200,
+  sides: 6,
+  sideCounts: [60, 60, 60, 60],
+  aspectRatio: 1,
+  path: HEART_PATH,
+  rotation: 0,
+  offset: 0,
+  cornerBias: 0,
+  margin: 0,
+};
+
+export const LAYOUT_LIMITS = {
+  sides: { min: 3, max: 12 },
+  sideCount: { min: 1, max: PARAMETER_LIMITS.nailCount.max },
+  rotation: { min: -180, max: 180 },
+  offset: { min: 0, max: 1 },
+  cornerBias: { min: 0, max: 0.9 },
+  margin: { min: 0, max: 0.2 },
+} as const;
+
+// Longer board side of generated layouts, the same working size the local solver uses
+export const LAYOUT_SIZE = 300;
+
+const isInteger = (value: number) => Number.isFinite(value) && Number.isInteger(value);
+const inRange = (value: number, { min, max }: { min: number; max: number }) =>
+  Number.isFinite(value) && value >= min && value <= max;
+
+export const layoutNailCount = (settings: NailLayoutSettings) =>
+  settings.shape === 'rectangle'
+    ? settings.sideCounts.reduce((total, count) => total + count, 0)
+    : settings.nailCount;
+
+export function validateLayout(settings: NailLayoutSettings): LayoutErrors {
+  const errors: LayoutErrors = {};
+  const { min, max } = PARAMETER_LIMITS.nailCount;
+
+  if (settings.shape === 'rectangle') {
+    if (!settings.sideCounts.every(count => isInteger(count) && inRange(count, LAYOUT_LIMITS.sideCount))) {
+      errors.sideCounts = 'Every side needs a whole number of nails';
+    } else if (!inRange(layoutNailCount(settings), { min, max })) {
+      errors.sideCounts = `The sides must add up to between ${min} and ${max} nails`;
+    }
+  } else if (!isInteger(settings.nailCount) || !inRange(settings.nailCount, { min, max })) {
+    errors.nailCount = `Must be a whole number between ${min} and ${max}`;
+  }
+
+  if (settings.shape === 'polygon' && (!isInteger(settings.sides) || !inRange(settings.sides, LAYOUT_LIMITS.sides))) {
+    errors.sides = `Must be a whole number between ${LAYOUT_LIMITS.sides.min} and ${LAYOUT_LIMITS.sides.max}`;
+  }
+
+  if (
+    (settings.shape === 'circle' || settings.shape === 'rectangle') &&
+    !inRange(settings.aspectRatio, PARAMETER_LIMITS.aspectRatio)
+  ) {
+    errors.aspectRatio = `Must be between ${PARAMETER_LIMITS.aspectRatio.min} and ${PARAMETER_LIMITS.aspectRatio.max}`;
+  }
+
+  if (settings.shape === 'path' && settings.path.trim() === '') {
+    errors.path = 'Paste the d attribute of an SVG path';
+  }
+
+  (['rotation', 'offset', 'cornerBias', 'margin'] as const).forEach(field => {
+    if (!inRange(settings[field], LAYOUT_LIMITS[field])) {
+      errors[field] = `Must be between ${LAYOUT_LIMITS[field].min} and ${LAYOUT_LIMITS[field].max}`;
+    }
+  });
+
+  return errors;
+}
+
+/*
+ * Spacing along one side: t runs 0..1 evenly and is warped so nails bunch up
+ * near both ends when bias > 0. The warp keeps its slope at 1 - bias at the
+ * corners and 1 + bias mid-side, so it stays monotonic for any bias below 1.
+ */
+const warp = (t: number, bias: number) => t - (bias * Math.sin(2 * Math.PI * t)) / (2 * Math.PI);
+
+// Spreads `total` nails over `parts` sides as evenly as whole numbers allow
+const splitCount = (total: number, parts: number) =>
+  Array.from({ length: parts }, (_, i) => Math.floor(total / parts) + (i < total % parts ? 1 : 0));
+
+// Nails along a closed outline of straight sides, each side starting at its corner
+function alongSides(corners: Nail[], counts: number[], offset: number, bias: number): Nail[] {
+  const nails: Nail[] = [];
+  corners.forEach((start, side) => {
+    const end = corners[(side + 1) % corners.length];
+    const count = counts[side];
+    for (let i = 0; i < count; i++) {
+      const t = warp((i + offset) / count, bias);
+      nails.push({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+    }
+  });
+  return nails;
+}
+
+function alongEllipse(count: number, aspectRatio: number, offset: number): Nail[] {
+  const rx = aspectRatio >= 1 ? 1 : aspectRatio;
+  const ry = aspectRatio >= 1 ? 1 / aspectRatio : 1;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = ((i + offset) / count) * 2 * Math.PI;
+    return { x: rx * Math.cos(angle), y: ry * Math.sin(angle) };
+  });
+}
+
+function alongPolygon(settings: NailLayoutSettings): Nail[] {
+  // First corner points straight up, so an unrotated polygon stands on a flat side or a point like usual
+  const corners = Array.from({ length: settings.sides }, (_, i) => {
+    const angle = -Math.PI / 2 + (i / settings.sides) * 2 * Math.PI;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+  return alongSides(corners, splitCount(settings.nailCount, settings.sides), settings.offset, settings.cornerBias);
+}
+
+function alongRectangle(settings: NailLayoutSettings): Nail[] {
+  const w = settings.aspectRatio >= 1 ? 1 : settings.aspectRatio;
+  const h = settings.aspectRatio >= 1 ? 1 / settings.aspectRatio : 1;
+  const corners = [
+    { x: -w, y: -h },
+    { x: w, y: -h },
+    { x: w, y: h },
+    { x: -w, y: h },
+  ];
+  return alongSides(corners, settings.sideCounts, settings.offset, settings.cornerBias);
+}
+
+// Evenly spaced by arc length; the browser's own SVG engine does the path math
+function alongPath(data: string, count: number, offset: number): Nail[] {
+  const svgNs = 'http://www.w3.org/2000/svg';
+  const svg = document.createElementNS(svgNs, 'svg');
+  const path = document.createElementNS(svgNs, 'path');
+  svg.setAttribute('style', 'position:absolute;width:0;height:0;visibility:hidden');
+  path.setAttribute('d', data);
+  svg.appendChild(path);
+  // Some browsers only measure paths that are in the document
+  document.body.appendChild(svg);
+  try {
+    const length = path.getTotalLength();
+    if (!Number.isFinite(length) || length <= 0) {
+      throw new NailLayoutError('The SVG path has no length; check the path data');
+    }
+    return Array.from({ length: count }, (_, i) => {
+      const point = path.getPointAtLength((((i + offset) / count) % 1) * length);
+      return { x: point.x, y: point.y };
+    });
+  } finally {
+    svg.remove();
+  }
+}
+
+function rotate(nails: Nail[], degrees: number): Nail[] {
+  if (degrees === 0) return nails;
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return nails.map(({ x, y }) => ({ x: x * cos - y * sin, y: x * sin + y * cos }));
+}
+
+const clampAspect = (aspect: number) =>
+  Math.min(PARAMETER_LIMITS.aspectRatio.max, Math.max(PARAMETER_LIMITS.aspectRatio.min, aspect));
+
+// Quarter turns keep circles and rectangles lined up with the board, just with width and height swapped
+const isQuarterTurn = (rotation: number) => rotation % 90 === 0;
+const swapsSides = (rotation: number) => isQuarterTurn(rotation) && rotation % 180 !== 0;
+
+// Outline for the visualizer; shapes it cannot draw, or that no longer fill the board after rotating, get none
+function layoutBoardShape(settings: NailLayoutSettings): BoardShape | undefined {
+  if (settings.shape === 'circle') {
+    if (settings.aspectRatio === 1) return 'circle';
+    return isQuarterTurn(settings.rotation) ? 'ellipse' : undefined;
+  }
+  if (settings.shape === 'rectangle' && isQuarterTurn(settings.rotation)) {
+    return settings.aspectRatio === 1 ? 'square' : 'rectangle';
+  }
+  return undefined;
+}
+
+/*
+ * Board width / height. Circles and rectangles that still line up with the
+ * board use the exact ratio asked for, since their nails need not reach the
+ * outline's extremes; everything else takes the span of its nails.
+ */
+function layoutAspect(settings: NailLayoutSettings, spanX: number, spanY: number): number {
+  if (settings.shape === 'circle' && settings.aspectRatio === 1) return 1;
+  if (layoutBoardShape(settings) !== undefined) {
+    return swapsSides(settings.rotation) ? 1 / settings.aspectRatio : settings.aspectRatio;
+  }
+  return spanX / spanY;
+}
+
+/**
+ * Nail positions for a layout, scaled into a board whose longer side is
+ * LAYOUT_SIZE. The board takes the aspect ratio of the rotated outline,
+ * exactly the one asked for when a circle or rectangle is still aligned.
+ * Throws a NailLayoutError when an SVG path cannot be measured.
+ */
+export function generateLayout(settings: NailLayoutSettings): NailPositions {
+  const outline = settings.shape === 'polygon'
+    ? alongPolygon(settings)
+    : settings.shape === 'rectangle'
+      ? alongRectangle(settings)
+      : settings.shape === 'path'
+        ? alongPath(settings.path, settings.nailCount, settings.offset)
+        : alongEllipse(settings.nailCount, settings.aspectRatio, settings.offset);
+  const points = rotate(outline, settings.rotation);
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+
+  const aspectRatio = Math.round(clampAspect(layoutAspect(settings, spanX, spanY)) * 1000) / 1000;
+  const { width, height } = boardDimensions({ boardShape: 'rectangle', aspectRatio }, LAYOUT_SIZE);
+
+  // One unit of clearance keeps nails on the edge inside the image, as with the standard boards
+  const margin = 1 + settings.margin * LAYOUT_SIZE;
+  const scale = Math.min((width - margin * 2) / spanX, (height - margin * 2) / spanY);
+  const left = (width - spanX * scale) / 2;
+  const top = (height - spanY * scale) / 2;
+
+  return {
+    nails: points.map(({ x, y }) => ({ x: left + (x - minX) * scale, y: top + (y - minY) * scale })),
+    board: { width, height, shape: layoutBoardShape(settings) },
+  };
+}
+
+// Generation parameters that agree with a layout, so cropping, masking and validation follow the custom board
+export function withLayout(parameters: GenerationParameters, layout: NailPositions): GenerationParameters {
+  const { width, height, shape } = layout.board;
+  return {
+    ...parameters,
+    nailCount: layout.nails.length,
+    boardShape: shape ?? 'rectangle',
+    aspectRatio: Math.round((width / height) * 1000) / 1000,
+  };
+}
@@ -0,0 +1,157 @@
+export type BoardShape = 'circle' | 'ellipse' | 'square' | 'rectangle';
+
+export const BOARD_SHAPES: { value: BoardShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'square', label: 'Square' },
+  { value: 'rectangle', label: 'Rectangle' },
+];
+
+export interface GenerationParameters {
+  nailCount: number;
+  maxLines: number;
+  lineWeight: number;    // Darkness each string removes, i.e. how opaque the thread is
+  minDistance: number;   // Minimum number of nails skipped between consecutive pins
+  boardShape: BoardShape;
+  aspectRatio: number;   // Board width / height; only used by ellipse and rectangle boards
+  seed: number | null;   // null picks a fresh random seed per generation
+}
+
+export type ParameterErrors = Partial<Record<keyof GenerationParameters, string>>;
+
+export interface ParameterPreset {
+  id: string;
+  label: string;
+  parameters: GenerationParameters;
+}
+
+export const DEFAULT_PARAMETERS: GenerationParameters = {
+  nailCount: 200,
+  maxLines: 3000,
+  lineWeight: 20,
+  minDistance: 20,
+  boardShape: 'circle',
+  aspectRatio: 1,
+  seed: null,
+};
+
+export const PARAMETER_LIMITS = {
+  nailCount: { min: 20, max: 1000 },
+  maxLines: { min: 100, max: 20000 },
+  lineWeight: { min: 1, max: 255 },
+  minDistance: { min: 1 },
+  aspectRatio: { min: 0.25, max: 4 },
+  seed: { min: 0, max: 0xffffffff },
+} as const;
+
+export const PARAMETER_PRESETS: ParameterPreset[] = [
+  {
+    id: 'draft',
+    label: 'Quick draft',
+    parameters: { ...DEFAULT_PARAMETERS, nailCount: 150, maxLines: 1500, lineWeight: 30, minDistance: 15 },
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    parameters: DEFAULT_PARAMETERS,
+  },
+  {
+    id: 'detailed',
+    label: 'Detailed',
+    parameters: { ...DEFAULT_PARAMETERS, nailCount: 288, maxLines: 5000, lineWeight: 15, minDistance: 25 },
+  },
+  {
+    id: 'square',
+    label: 'Square board',
+    parameters: { ...DEFAULT_PARAMETERS, nailCount: 240, maxLines: 3500, boardShape: 'square' },
+  },
+  {
+    id: 'portrait',
+    label: 'Portrait oval',
+    parameters: { ...DEFAULT_PARAMETERS, nailCount: 240, maxLines: 3500, boardShape: 'ellipse', aspectRatio: 0.75 },
+  },
+];
+
+const isInteger = (value: number) => Number.isFinite(value) && Number.isInteger(value);
+
+export const hasFreeAspect = (shape: BoardShape) => shape === 'ellipse' || shape === 'rectangle';
+
+// Width / height of the board; circles and squares are always 1
+export const boardAspect = (parameters: Pick<GenerationParameters, 'boardShape' | 'aspectRatio'>) =>
+  hasFreeAspect(parameters.boardShape) ? parameters.aspectRatio : 1;
+
+// Board dimensions whose longer side is `longSide`
+export function boardDimensions(
+  parameters: Pick<GenerationParameters, 'boardShape' | 'aspectRatio'>,
+  longSide: number,
+): { width: number; height: number } {
+  const aspect = boardAspect(parameters);
+  return aspect >= 1
+    ? { width: longSide, height: Math.round(longSide / aspect) }
+    : { width: Math.round(longSide * aspect), height: longSide };
+}
+
+// Largest skip that still leaves candidate nails on both sides of the circle
+export const maxMinDistance = (nailCount: number) => Math.max(1, Math.floor(nailCount / 2) - 1);
+
+export function validateParameters(parameters: GenerationParameters): ParameterErrors {
+  const errors: ParameterErrors = {};
+  const { nailCount, maxLines, lineWeight, minDistance, boardShape, aspectRatio, seed } = parameters;
+
+  if (!isInteger(nailCount) || nailCount < PARAMETER_LIMITS.nailCount.min || nailCount > PARAMETER_LIMITS.nailCount.max) {
+    errors.nailCount = `Must be a whole number between ${PARAMETER_LIMITS.nailCount.min} and ${PARAMETER_LIMITS.nailCount.max}`;
+  }
+
+  if (!isInteger(maxLines) || maxLines < PARAMETER_LIMITS.maxLines.min || maxLines > PARAMETER_LIMITS.maxLines.max) {
+    errors.maxLines = `Must be a whole number between ${PARAMETER_LIMITS.maxLines.min} and ${PARAMETER_LIMITS.maxLines.max}`;
+  }
+
+  if (!isInteger(lineWeight) || lineWeight < PARAMETER_LIMITS.lineWeight.min || lineWeight > PARAMETER_LIMITS.lineWeight.max) {
+    errors.lineWeight = `Must be a whole number between ${PARAMETER_LIMITS.lineWeight.min} and ${PARAMETER_LIMITS.lineWeight.max}`;
+  }
+
+  const minDistanceMax = maxMinDistance(nailCount);
+  if (!isInteger(minDistance) || minDistance < PARAMETER_LIMITS.minDistance.min || minDistance > minDistanceMax) {
+    errors.minDistance = `Must be a whole number between ${PARAMETER_LIMITS.minDistance.min} and ${minDistanceMax}`;
+  }
+
+  if (!BOARD_SHAPES.some(shape => shape.value === boardShape)) {
+    errors.boardShape = 'Unknown board shape';
+  }
+
+  if (
+    !Number.isFinite(aspectRatio) ||
+    aspectRatio < PARAMETER_LIMITS.aspectRatio.min ||
+    aspectRatio > PARAMETER_LIMITS.aspectRatio.max
+  ) {
+    errors.aspectRatio = `Must be between ${PARAMETER_LIMITS.aspectRatio.min} and ${PARAMETER_LIMITS.aspectRatio.max}`;
+  }
+
+  if (seed !== null && (!isInteger(seed) || seed < PARAMETER_LIMITS.seed.min || seed > PARAMETER_LIMITS.seed.max)) {
+    errors.seed = `Must be empty or a whole number between ${PARAMETER_LIMITS.seed.min} and ${PARAMETER_LIMITS.seed.max}`;
+  }
+
+  return errors;
+}
+
+export const hasErrors = (errors: ParameterErrors) => Object.keys(errors).length > 0;
+
+export const randomSeed = () => Math.floor(Math.random() * PARAMETER_LIMITS.seed.max);
+
+// Pins down the seed so the echoed parameters fully reproduce the pattern
+export const resolveParameters = (parameters: GenerationParameters): GenerationParameters => ({
+  ...parameters,
+  seed: parameters.seed ?? randomSeed(),
+});
+
+export function appendParameters(formData: FormData, parameters: GenerationParameters) {
+  formData.append('nailCount', String(parameters.nailCount));
+  formData.append('maxLines', String(parameters.maxLines));
+  formData.append('lineWeight', String(parameters.lineWeight));
+  formData.append('minDistance', String(parameters.minDistance));
+  formData.append('boardShape', parameters.boardShape);
+  formData.append('aspectRatio', String(boardAspect(parameters)));
+  if (parameters.seed !== null) {
+    formData.append('seed', String(parameters.seed));
+  }
+}
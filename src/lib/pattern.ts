@@ -0,0 +1,178 @@
+import type { BoardShape } from './parameters';
+
+export interface Nail {
+  x: number;
+  y: number;
+}
+
+// Coordinate space the nails live in, with the origin at the top-left corner
+export interface Board {
+  width: number;
+  height: number;
+  shape?: BoardShape;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One thread color, wound as its own continuous sequence over the shared nails
+export interface ThreadLayer {
+  name: string;
+  color: string;    // Any CSS color
+  opacity: number;  // 0-1
+  lines: number[];  // Same meaning as StringArtPattern.lines
+}
+
+// Internal pattern model shared by the solver, the API layer and the visualizer
+export interface StringArtPattern {
+  nails: Nail[];
+  lines: number[];         // Continuous nail sequence; string i runs from lines[i - 1] to lines[i]
+  board?: Board;           // Omitted by older servers; the nails' bounding box is used instead
+  layers?: ThreadLayer[];  // Multi-color patterns, wound in order; replaces lines when present
+}
+
+// A single string in build order, tagged with the thread layer it belongs to
+export interface PatternString {
+  from: number;
+  to: number;
+  layer: number;
+}
+
+export const EMPTY_PATTERN: StringArtPattern = { nails: [], lines: [] };
+
+// Look of single-color patterns, which have no layer of their own
+export const DEFAULT_THREAD: Omit<ThreadLayer, 'lines'> = {
+  name: 'Thread',
+  color: '#fbbf24',
+  opacity: 0.7,
+};
+
+export class PatternFormatError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'PatternFormatError';
+    this.issues = issues;
+  }
+}
+
+export const isNailPair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(v => typeof v === 'number');
+
+/**
+ * Chains a list of [from, to] pairs into a nail sequence. Pairs may be
+ * reported in either direction, but each string has to start where the
+ * previous one ended, otherwise the thread could not be wound in one go.
+ */
+export function pairsToSequence(pairs: [number, number][]): number[] {
+  if (pairs.length === 0) return [];
+
+  let [first, second] = pairs[0];
+  // Orient the first pair so that it connects to the second one when possible
+  if (pairs.length > 1 && pairs[1].includes(first) && !pairs[1].includes(second)) {
+    [first, second] = [second, first];
+  }
+
+  const sequence = [first, second];
+  for (let i = 1; i < pairs.length; i++) {
+    const [a, b] = pairs[i];
+    const last = sequence[sequence.length - 1];
+    if (a === last) {
+      sequence.push(b);
+    } else if (b === last) {
+      sequence.push(a);
+    } else {
+      throw new PatternFormatError(
+        `String ${i + 1} (${a} → ${b}) does not start at nail ${last} where the previous string ended`
+      );
+    }
+  }
+  return sequence;
+}
+
+/**
+ * Area the visualizer has to fit: the board when the pattern declares one,
+ * otherwise the bounding box of the nails. Always has a non-zero size.
+ */
+export function getPatternBounds(pattern: StringArtPattern): Bounds {
+  if (pattern.board) {
+    return { x: 0, y: 0, width: pattern.board.width, height: pattern.board.height };
+  }
+
+  if (pattern.nails.length === 0) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const nail of pattern.nails) {
+    minX = Math.min(minX, nail.x);
+    minY = Math.min(minY, nail.y);
+    maxX = Math.max(maxX, nail.x);
+    maxY = Math.max(maxY, nail.y);
+  }
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(maxX - minX, 1),
+    height: Math.max(maxY - minY, 1),
+  };
+}
+
+export const isMultiColor = (pattern: StringArtPattern) => (pattern.layers?.length ?? 0) > 0;
+
+// Thread layers in build order; single-color patterns are one default layer
+export const getThreadLayers = (pattern: StringArtPattern): ThreadLayer[] =>
+  pattern.layers?.length ? pattern.layers : [{ ...DEFAULT_THREAD, lines: pattern.lines }];
+
+/**
+ * Flattens every layer into the order the strings are wound: the whole
+ * first thread, then the whole second one, and so on. Position i in the
+ * result is string i + 1 of the timeline and of build mode.
+ */
+export function getStrings(pattern: StringArtPattern): PatternString[] {
+  const strings: PatternString[] = [];
+  getThreadLayers(pattern).forEach((thread, layer) => {
+    for (let i = 1; i < thread.lines.length; i++) {
+      strings.push({ from: thread.lines[i - 1], to: thread.lines[i], layer });
+    }
+  });
+  return strings;
+}
+
+export const countStrings = (pattern: StringArtPattern) =>
+  getThreadLayers(pattern).reduce((total, thread) => total + Math.max(0, thread.lines.length - 1), 0);
+
+/**
+ * Stable fingerprint of a pattern (FNV-1a over the nail layout and sequences),
+ * used to key data that belongs to one specific pattern such as build progress.
+ */
+export function getPatternId(pattern: StringArtPattern): string {
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    hash ^= value & 0xffff;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= value >>> 16;
+    hash = Math.imul(hash, 0x01000193);
+  };
+
+  mix(pattern.nails.length);
+  for (const nail of pattern.nails) {
+    mix(Math.round(nail.x * 100));
+    mix(Math.round(nail.y * 100));
+  }
+  for (const thread of getThreadLayers(pattern)) {
+    mix(thread.lines.length);
+    for (const nail of thread.lines) {
+      mix(nail);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
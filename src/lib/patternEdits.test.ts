@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { getStrings } from './pattern';
+import type { StringArtPattern } from './pattern';
+import { deleteString, findNailAt, findStringAt, insertMove, moveNail, rerouteString, truncatePattern } from './patternEdits';
+
+const nails = [
+  { x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 },
+  { x: 10, y: 10 }, { x: 5, y: 10 }, { x: 0, y: 10 },
+];
+const single: StringArtPattern = { nails, lines: [0, 2, 4, 1, 3] };
+const multi: StringArtPattern = {
+  nails,
+  lines: [],
+  layers: [
+    { name: 'A', color: '#000', opacity: 1, lines: [0, 2, 4] },
+    { name: 'B', color: '#fff', opacity: 1, lines: [1, 3, 5] },
+  ],
+};
+
+describe('deleteString', () => {
+  it('drops the first string of a thread', () => {
+    expect(deleteString(single, 0).lines).toEqual([2, 4, 1, 3]);
+  });
+
+  it('merges the strings around a later one into one straight string', () => {
+    expect(deleteString(single, 1).lines).toEqual([0, 2, 1, 3]);
+  });
+
+  it('never leaves a string of zero length', () => {
+    expect(deleteString({ nails, lines: [0, 2, 0, 2] }, 1).lines).toEqual([0, 2]);
+  });
+
+  it('edits only the thread the string belongs to', () => {
+    const edited = deleteString(multi, 3);
+    expect(edited.layers?.map(thread => thread.lines)).toEqual([[0, 2, 4], [1, 3]]);
+  });
+
+  it('ignores strings that do not exist', () => {
+    expect(deleteString(single, 4)).toBe(single);
+    expect(deleteString(single, -1)).toBe(single);
+  });
+});
+
+describe('rerouteString', () => {
+  it('moves the end nail, so the next string starts there', () => {
+    expect(rerouteString(single, 1, 5).lines).toEqual([0, 2, 5, 1, 3]);
+  });
+
+  it('refuses to end a string where it starts or at a missing nail', () => {
+    expect(rerouteString(single, 1, 2)).toBe(single);
+    expect(rerouteString(single, 1, 6)).toBe(single);
+  });
+});
+
+describe('truncatePattern', () => {
+  it('keeps the first strings', () => {
+    expect(truncatePattern(single, 2).lines).toEqual([0, 2, 4]);
+    expect(truncatePattern(single, 0).lines).toEqual([]);
+  });
+
+  it('counts across threads and drops the ones left empty', () => {
+    expect(truncatePattern(multi, 3).layers?.map(thread => thread.lines)).toEqual([[0, 2, 4], [1, 3]]);
+    expect(truncatePattern(multi, 1).layers?.map(thread => thread.name)).toEqual(['A']);
+  });
+});
+
+describe('insertMove', () => {
+  it('adds a move after a string and returns the new string index', () => {
+    expect(insertMove(single, 0, 5)).toEqual({ pattern: { nails, lines: [0, 2, 5, 4, 1, 3] }, index: 1 });
+  });
+
+  it('appends to the last thread when no string is given', () => {
+    expect(insertMove(single, null, 5)).toEqual({ pattern: { nails, lines: [0, 2, 4, 1, 3, 5] }, index: 4 });
+    const { pattern, index } = insertMove(multi, null, 0);
+    expect(pattern.layers?.[1].lines).toEqual([1, 3, 5, 0]);
+    expect(index).toBe(4);
+  });
+
+  it('numbers the new string across threads', () => {
+    const { pattern, index } = insertMove(multi, 2, 0);
+    expect(pattern.layers?.[1].lines).toEqual([1, 3, 0, 5]);
+    expect(index).toBe(3);
+  });
+
+  it('does nothing for a move to the nail the thread is already on', () => {
+    expect(insertMove(single, 0, 2)).toEqual({ pattern: single, index: 0 });
+  });
+});
+
+describe('moveNail', () => {
+  it('keeps the nail inside the board', () => {
+    expect(moveNail(single, 0, { x: -5, y: 20 }).nails[0]).toEqual({ x: 0, y: 10 });
+    expect(moveNail(single, 1, { x: 3, y: 4 }).nails[1]).toEqual({ x: 3, y: 4 });
+  });
+});
+
+describe('hit testing', () => {
+  const strings = getStrings(single);
+
+  it('finds the closest shown string, later ones first on a tie', () => {
+    // Strings 0, 2 and 3 all touch nail 1 at (5, 0)
+    expect(findStringAt(strings, nails, { x: 2, y: 0.5 }, 1, strings.length)).toBe(0);
+    expect(findStringAt(strings, nails, { x: 2, y: 0.5 }, 1, 1)).toBe(0);
+    expect(findStringAt(strings, nails, { x: 5, y: 0 }, 1, strings.length)).toBe(3);
+    expect(findStringAt(strings, nails, { x: 1, y: 8 }, 1, strings.length)).toBeNull();
+  });
+
+  it('skips strings of hidden threads', () => {
+    const multiStrings = getStrings(multi);
+    expect(findStringAt(multiStrings, nails, { x: 2, y: 0 }, 1, multiStrings.length, [0])).toBeNull();
+  });
+
+  it('finds the closest nail within the tolerance', () => {
+    expect(findNailAt(nails, { x: 4.5, y: 0.5 }, 1)).toBe(1);
+    expect(findNailAt(nails, { x: 5, y: 5 }, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { getPatternBounds, getThreadLayers, isMultiColor } from './pattern';
+import type { Nail, PatternString, StringArtPattern } from './pattern';
+
+/*
+ * Edits on a pattern's nail sequences. Strings are addressed by their index
+ * in build order (see getStrings), and every edit works on the sequence of
+ * the thread the string belongs to, so each thread stays one continuous
+ * path: a string always starts at the nail where the previous one ended.
+ */
+
+// Where a string sits in its thread: it runs from lines[position] to lines[position + 1]
+interface StringLocation {
+  layer: number;
+  position: number;
+}
+
+function locateString(pattern: StringArtPattern, index: number): StringLocation | null {
+  if (index < 0) return null;
+  let remaining = index;
+  const threads = getThreadLayers(pattern);
+  for (let layer = 0; layer < threads.length; layer++) {
+    const count = Math.max(0, threads[layer].lines.length - 1);
+    if (remaining < count) return { layer, position: remaining };
+    remaining -= count;
+  }
+  return null;
+}
+
+// The same nail twice in a row would be a string of zero length
+const dropRepeats = (lines: number[]) => lines.filter((nail, i) => i === 0 || nail !== lines[i - 1]);
+
+function withSequence(pattern: StringArtPattern, layer: number, lines: number[]): StringArtPattern {
+  const cleaned = dropRepeats(lines);
+  if (!isMultiColor(pattern)) {
+    return { ...pattern, lines: cleaned };
+  }
+  return {
+    ...pattern,
+    layers: pattern.layers?.map((thread, index) => (index === layer ? { ...thread, lines: cleaned } : thread)),
+  };
+}
+
+/**
+ * Removes a string. The first string of a thread is simply dropped; any
+ * other one takes its end nail out of the sequence, so the strings on
+ * either side merge into one running straight past that nail.
+ */
+export function deleteString(pattern: StringArtPattern, index: number): StringArtPattern {
+  const location = locateString(pattern, index);
+  if (!location) return pattern;
+  const lines = [...getThreadLayers(pattern)[location.layer].lines];
+  lines.splice(location.position === 0 ? 0 : location.position + 1, 1);
+  return withSequence(pattern, location.layer, lines);
+}
+
+// Sends a string to a different end nail; the string after it then starts from there
+export function rerouteString(pattern: StringArtPattern, index: number, nail: number): StringArtPattern {
+  const location = locateString(pattern, index);
+  if (!location || nail < 0 || nail >= pattern.nails.length) return pattern;
+  const lines = [...getThreadLayers(pattern)[location.layer].lines];
+  // Ending where it starts would be no string at all
+  if (lines[location.position] === nail) return pattern;
+  lines[location.position + 1] = nail;
+  return withSequence(pattern, location.layer, lines);
+}
+
+// Keeps the first `count` strings in build order; threads left without strings are dropped
+export function truncatePattern(pattern: StringArtPattern, count: number): StringArtPattern {
+  let remaining = Math.max(0, count);
+  const threads = getThreadLayers(pattern).map(thread => {
+    const kept = Math.min(remaining, Math.max(0, thread.lines.length - 1));
+    remaining -= kept;
+    return { ...thread, lines: kept > 0 ? thread.lines.slice(0, kept + 1) : [] };
+  });
+
+  if (!isMultiColor(pattern)) {
+    return { ...pattern, lines: threads[0].lines };
+  }
+  return { ...pattern, layers: threads.filter(thread => thread.lines.length > 0) };
+}
+
+/**
+ * Adds a manual move to `nail` right after string `after`, or at the very
+ * end of the last thread when `after` is null. The string that followed
+ * now starts from the new nail. Returns the index the new string got, so
+ * repeated calls can chain moves.
+ */
+export function insertMove(
+  pattern: StringArtPattern,
+  after: number | null,
+  nail: number,
+): { pattern: StringArtPattern; index: number | null } {
+  if (nail < 0 || nail >= pattern.nails.length) return { pattern, index: after };
+
+  const threads = getThreadLayers(pattern);
+  const location = after === null
+    ? { layer: threads.length - 1, position: threads[threads.length - 1].lines.length - 2 }
+    : locateString(pattern, after);
+  if (!location) return { pattern, index: after };
+
+  const lines = [...threads[location.layer].lines];
+  const insertAt = location.position + 2;
+  if (lines[insertAt - 1] === nail) return { pattern, index: after };
+  lines.splice(insertAt, 0, nail);
+
+  const previous = threads
+    .slice(0, location.layer)
+    .reduce((total, thread) => total + Math.max(0, thread.lines.length - 1), 0);
+  // A move from an empty thread only places the first nail, which is no string yet
+  const index = lines.length > 1 ? previous + insertAt - 1 : null;
+  return { pattern: withSequence(pattern, location.layer, lines), index };
+}
+
+// Moves a nail, kept inside the board so the pattern's frame does not change
+export function moveNail(pattern: StringArtPattern, index: number, point: Nail): StringArtPattern {
+  if (!pattern.nails[index]) return pattern;
+  const bounds = getPatternBounds(pattern);
+  const clamp = (value: number, min: number, size: number) => Math.min(min + size, Math.max(min, value));
+  const nails = [...pattern.nails];
+  nails[index] = {
+    x: clamp(point.x, bounds.x, bounds.width),
+    y: clamp(point.y, bounds.y, bounds.height),
+  };
+  return { ...pattern, nails };
+}
+
+function distanceToSegment(point: Nail, a: Nail, b: Nail): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+    : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Index of the string closest to `point` among the first `count`, within
+ * `tolerance` pattern units. Later strings win ties since they are drawn on top.
+ */
+export function findStringAt(
+  strings: PatternString[],
+  nails: Nail[],
+  point: Nail,
+  tolerance: number,
+  count: number,
+  hiddenLayers: number[] = [],
+): number | null {
+  let best: number | null = null;
+  let bestDistance = tolerance;
+  for (let i = Math.min(count, strings.length) - 1; i >= 0; i--) {
+    const { from, to, layer } = strings[i];
+    if (hiddenLayers.includes(layer) || !nails[from] || !nails[to]) continue;
+    const distance = distanceToSegment(point, nails[from], nails[to]);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function findNailAt(nails: Nail[], point: Nail, tolerance: number): number | null {
+  let best: number | null = null;
+  let bestDistance = tolerance;
+  nails.forEach((nail, index) => {
+    const distance = Math.hypot(nail.x - point.x, nail.y - point.y);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
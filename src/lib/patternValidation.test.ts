@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMETERS } from './parameters';
+import { parseParameters, parsePatternData, summarizeIssues } from './patternValidation';
+
+const nails = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+const parse = (data: Record<string, unknown>) => {
+  const issues: string[] = [];
+  return { pattern: parsePatternData(data, 'data', issues), issues };
+};
+
+describe('parsePatternData', () => {
+  it('accepts a nail sequence with a board', () => {
+    const board = { width: 10, height: 10, shape: 'square' };
+    expect(parse({ nails, lines: [0, 2, 1, 3], board })).toEqual({
+      pattern: { nails, lines: [0, 2, 1, 3], board },
+      issues: [],
+    });
+  });
+
+  it('chains [from, to] pairs into a sequence, in either direction', () => {
+    expect(parse({ nails, lines: [[2, 0], [2, 1], [3, 1]] }).pattern.lines).toEqual([0, 2, 1, 3]);
+  });
+
+  it('reports pairs that do not continue the thread', () => {
+    const { issues } = parse({ nails, lines: [[0, 1], [2, 3]] });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toContain('does not start at nail 1');
+  });
+
+  it('reports every nail index out of range', () => {
+    const { issues } = parse({ nails, lines: [0, 4, -1, 1.5] });
+    expect(issues).toEqual([
+      'data.lines[1] references nail 4, expected 0-3',
+      'data.lines[2] references nail -1, expected 0-3',
+      'data.lines[3] references nail 1.5, expected 0-3',
+    ]);
+  });
+
+  it('reports broken nails and skips the line checks', () => {
+    const { pattern, issues } = parse({ nails: [{ x: 0, y: 0 }, { x: 'a', y: 1 }], lines: [0, 7] });
+    expect(pattern).toEqual({ nails: [{ x: 0, y: 0 }], lines: [] });
+    expect(issues).toEqual(['data.nails[1] must have numeric x and y coordinates']);
+  });
+
+  it('reports a board without a positive size or with an unknown shape', () => {
+    expect(parse({ nails, lines: [0, 1], board: { width: 0, height: 5 } }).issues)
+      .toEqual(['data.board must have a positive numeric width and height']);
+    expect(parse({ nails, lines: [0, 1], board: { width: 5, height: 5, shape: 'star' } }).issues)
+      .toEqual(['data.board.shape "star" is not a known board shape']);
+  });
+
+  it('fills in thread defaults and checks colors and opacity of layers', () => {
+    const { pattern, issues } = parse({
+      nails,
+      layers: [
+        { color: '#ff0000', lines: [0, 2] },
+        { name: 'Blue', color: '', opacity: 2, lines: [1, 3] },
+      ],
+    });
+    expect(pattern.layers?.[0]).toEqual({ name: 'Thread 1', color: '#ff0000', opacity: expect.any(Number), lines: [0, 2] });
+    expect(pattern.layers?.[1].name).toBe('Blue');
+    expect(issues).toEqual(['data.layers[1].color must be a CSS color', 'data.layers[1].opacity must be between 0 and 1']);
+  });
+
+  it('rejects lines that are neither a sequence nor pairs', () => {
+    expect(parse({ nails, lines: [0, 'a'] }).issues).toEqual(['data.lines must be a nail sequence or a list of [from, to] pairs']);
+    expect(parse({ nails }).issues).toEqual(['data.lines must be a non-empty array']);
+  });
+});
+
+describe('summarizeIssues', () => {
+  it('lists the first five issues and counts the rest', () => {
+    const issues = Array.from({ length: 7 }, (_, i) => `issue ${i}`);
+    expect(summarizeIssues(issues)).toBe('issue 0; issue 1; issue 2; issue 3; issue 4 (+2 more)');
+    expect(summarizeIssues(['only one'])).toBe('only one');
+  });
+});
+
+describe('parseParameters', () => {
+  it('keeps valid parameters and fills in fields older files lack', () => {
+    const { nailCount, maxLines, lineWeight, minDistance, boardShape } = DEFAULT_PARAMETERS;
+    expect(parseParameters({ nailCount, maxLines, lineWeight, minDistance, boardShape }))
+      .toEqual({ nailCount, maxLines, lineWeight, minDistance, boardShape, seed: null, aspectRatio: 1 });
+  });
+
+  it('drops invalid parameters instead of failing', () => {
+    expect(parseParameters({ ...DEFAULT_PARAMETERS, nailCount: 5 })).toBeNull();
+    expect(parseParameters('nope')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { BOARD_SHAPES, hasErrors, validateParameters } from './parameters';
+import type { GenerationParameters } from './parameters';
+import { DEFAULT_THREAD, isNailPair, pairsToSequence } from './pattern';
+import type { Board, Nail, StringArtPattern, ThreadLayer } from './pattern';
+
+// Runtime checks for pattern data coming from outside the app (server responses, imported files)
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const MAX_REPORTED_ISSUES = 5;
+
+// Joins the first few issues into one readable sentence fragment
+export function summarizeIssues(issues: string[]): string {
+  const shown = issues.slice(0, MAX_REPORTED_ISSUES);
+  const more = issues.length - shown.length;
+  return `${shown.join('; ')}${more > 0 ? ` (+${more} more)` : ''}`;
+}
+
+function parseNails(raw: unknown, path: string, issues: string[]): Nail[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push(`${path} must be a non-empty array`);
+    return [];
+  }
+
+  const nails: Nail[] = [];
+  raw.forEach((nail, index) => {
+    if (isRecord(nail) && isFiniteNumber(nail.x) && isFiniteNumber(nail.y)) {
+      nails.push({ x: nail.x, y: nail.y });
+    } else {
+      issues.push(`${path}[${index}] must have numeric x and y coordinates`);
+    }
+  });
+  return nails;
+}
+
+function parseBoard(raw: unknown, path: string, issues: string[]): Board | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (!isRecord(raw) || !isFiniteNumber(raw.width) || !isFiniteNumber(raw.height) || raw.width <= 0 || raw.height <= 0) {
+    issues.push(`${path} must have a positive numeric width and height`);
+    return undefined;
+  }
+
+  const shape = BOARD_SHAPES.find(option => option.value === raw.shape)?.value;
+  if (raw.shape !== undefined && !shape) {
+    issues.push(`${path}.shape "${String(raw.shape)}" is not a known board shape`);
+  }
+  return { width: raw.width, height: raw.height, shape };
+}
+
+function parseLines(raw: unknown, nailCount: number, path: string, issues: string[]): number[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push(`${path} must be a non-empty array`);
+    return [];
+  }
+
+  const checkIndex = (value: number, location: string) => {
+    if (!Number.isInteger(value) || value < 0 || value >= nailCount) {
+      issues.push(`${location} references nail ${value}, expected 0-${nailCount - 1}`);
+    }
+  };
+
+  const issuesBefore = issues.length;
+  if (raw.every(isNailPair)) {
+    raw.forEach(([from, to], index) => {
+      checkIndex(from, `${path}[${index}][0]`);
+      checkIndex(to, `${path}[${index}][1]`);
+    });
+    if (issues.length > issuesBefore) return [];
+    try {
+      return pairsToSequence(raw);
+    } catch (error) {
+      issues.push(error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+
+  if (raw.every(isFiniteNumber)) {
+    raw.forEach((value, index) => checkIndex(value, `${path}[${index}]`));
+    return raw;
+  }
+
+  issues.push(`${path} must be a nail sequence or a list of [from, to] pairs`);
+  return [];
+}
+
+function parseLayers(raw: unknown, nailCount: number, path: string, issues: string[]): ThreadLayer[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push(`${path} must be a non-empty array`);
+    return [];
+  }
+
+  return raw.map((layer, index) => {
+    const location = `${path}[${index}]`;
+    if (!isRecord(layer)) {
+      issues.push(`${location} must be an object with a color and lines`);
+      return { ...DEFAULT_THREAD, lines: [] };
+    }
+    if (typeof layer.color !== 'string' || layer.color.trim() === '') {
+      issues.push(`${location}.color must be a CSS color`);
+    }
+    if (layer.opacity !== undefined && (!isFiniteNumber(layer.opacity) || layer.opacity < 0 || layer.opacity > 1)) {
+      issues.push(`${location}.opacity must be between 0 and 1`);
+    }
+    return {
+      name: typeof layer.name === 'string' && layer.name.trim() !== '' ? layer.name : `Thread ${index + 1}`,
+      color: typeof layer.color === 'string' ? layer.color : DEFAULT_THREAD.color,
+      opacity: isFiniteNumber(layer.opacity) ? layer.opacity : DEFAULT_THREAD.opacity,
+      lines: parseLines(layer.lines, nailCount, `${location}.lines`, issues),
+    };
+  });
+}
+
+/**
+ * Validates raw { nails, lines | layers, board? } data and normalizes the line format.
+ * Problems are appended to `issues` using `prefix` as the path, so callers can
+ * report everything that is wrong at once.
+ */
+export function parsePatternData(data: Record<string, unknown>, prefix: string, issues: string[]): StringArtPattern {
+  const nailIssues: string[] = [];
+  const nails = parseNails(data.nails, `${prefix}.nails`, nailIssues);
+  issues.push(...nailIssues);
+  const board = parseBoard(data.board, `${prefix}.board`, issues);
+  // Nail indices can only be range-checked against a usable nail list
+  if (nailIssues.length > 0) {
+    return { nails, lines: [] };
+  }
+
+  // Multi-color patterns carry one sequence per thread instead of a single one
+  if (data.layers !== undefined) {
+    const layers = parseLayers(data.layers, nails.length, `${prefix}.layers`, issues);
+    return board ? { nails, lines: [], board, layers } : { nails, lines: [], layers };
+  }
+
+  const lines = parseLines(data.lines, nails.length, `${prefix}.lines`, issues);
+  return board ? { nails, lines, board } : { nails, lines };
+}
+
+// Parameters attached to a pattern are informative, so invalid ones are dropped instead of failing
+export function parseParameters(raw: unknown): GenerationParameters | null {
+  if (!isRecord(raw)) return null;
+  const candidate = { seed: null, aspectRatio: 1, ...raw } as GenerationParameters;
+  return hasErrors(validateParameters(candidate)) ? null : candidate;
+}
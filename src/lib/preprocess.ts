@@ -0,0 +1,211 @@
+import type { BoardShape } from './parameters';
+
+// Adjustments applied to the cropped image before it is sent to the solver
+export interface PreprocessSettings {
+  grayscale: boolean;
+  brightness: number;      // -1 to 1
+  contrast: number;        // -1 to 1
+  gamma: number;           // 0.2 to 3; above 1 lightens the midtones
+  invert: boolean;
+  sharpen: number;         // Unsharp mask amount, 0 to 2
+  edges: number;           // Darkens outlines found by a Sobel filter, 0 to 1
+  backgroundBlur: number;  // Blurs more towards the edges so the center stands out, 0 to 1
+  vignette: boolean;       // Fades everything outside the board's outline to white
+}
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  grayscale: false,
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  invert: false,
+  sharpen: 0,
+  edges: 0,
+  backgroundBlur: 0,
+  vignette: false,
+};
+
+type PreprocessNumber = 'brightness' | 'contrast' | 'gamma' | 'sharpen' | 'edges' | 'backgroundBlur';
+
+export const PREPROCESS_LIMITS: Record<PreprocessNumber, { min: number; max: number; step: number }> = {
+  brightness: { min: -1, max: 1, step: 0.05 },
+  contrast: { min: -1, max: 1, step: 0.05 },
+  gamma: { min: 0.2, max: 3, step: 0.05 },
+  sharpen: { min: 0, max: 2, step: 0.1 },
+  edges: { min: 0, max: 1, step: 0.05 },
+  backgroundBlur: { min: 0, max: 1, step: 0.05 },
+};
+
+export const isDefaultPreprocess = (settings: PreprocessSettings) =>
+  (Object.keys(DEFAULT_PREPROCESS) as (keyof PreprocessSettings)[])
+    .every(key => settings[key] === DEFAULT_PREPROCESS[key]);
+
+// Stored settings may predate newer options, so missing ones fall back to their defaults
+export const withPreprocessDefaults = (settings: Partial<PreprocessSettings> | null | undefined): PreprocessSettings =>
+  ({ ...DEFAULT_PREPROCESS, ...settings });
+
+// Blur radii scale with the image so the preview and the full-size upload look alike
+const SHARPEN_RADIUS = 1 / 300;
+const BACKGROUND_RADIUS = 1 / 40;
+// Share of the radius that stays sharp when blurring out the background
+const SHARP_CENTER = 0.45;
+// Width of the soft edge of the vignette, relative to the radius
+const VIGNETTE_FEATHER = 0.04;
+
+const clamp = (value: number) => Math.min(255, Math.max(0, value));
+
+// Brightness, contrast and gamma folded into one lookup table
+function toneCurve({ brightness, contrast, gamma }: PreprocessSettings): Uint8ClampedArray {
+  const table = new Uint8ClampedArray(256);
+  // Maps -1..1 onto a slope of 0..∞ with 1 in the middle
+  const slope = Math.tan(((contrast + 1) * Math.PI) / 4);
+  for (let value = 0; value < 256; value++) {
+    const adjusted = Math.min(1, Math.max(0, (value / 255 - 0.5) * slope + 0.5 + brightness));
+    table[value] = Math.round(Math.pow(adjusted, 1 / gamma) * 255);
+  }
+  return table;
+}
+
+// Separable box blur of one channel, repeated three times to approximate a Gaussian
+function blurChannel(source: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const r = Math.max(1, Math.round(radius));
+  let current = source;
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const output = new Float32Array(input.length);
+    const lineCount = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const stride = horizontal ? 1 : width;
+    for (let line = 0; line < lineCount; line++) {
+      const start = horizontal ? line * width : line;
+      let sum = 0;
+      // Edges are extended so borders do not darken
+      for (let i = -r; i <= r; i++) {
+        sum += input[start + Math.min(length - 1, Math.max(0, i)) * stride];
+      }
+      for (let i = 0; i < length; i++) {
+        output[start + i * stride] = sum / (2 * r + 1);
+        const add = Math.min(length - 1, i + r + 1);
+        const remove = Math.max(0, i - r);
+        sum += input[start + add * stride] - input[start + remove * stride];
+      }
+    }
+    return output;
+  };
+  for (let i = 0; i < 3; i++) {
+    current = pass(pass(current, true), false);
+  }
+  return current;
+}
+
+// Normalized distance from the center, 1 on the ellipse touching the image's edges
+function radialDistance(x: number, y: number, width: number, height: number): number {
+  const dx = (x + 0.5 - width / 2) / (width / 2);
+  const dy = (y + 0.5 - height / 2) / (height / 2);
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Applies the settings to RGBA pixels in place. Steps run in a fixed order:
+ * grayscale, tone curve, invert, sharpen, edge emphasis, background blur and
+ * finally the vignette, which only masks round boards.
+ */
+export function preprocessPixels(image: ImageData, settings: PreprocessSettings, boardShape: BoardShape): ImageData {
+  const { width, height, data } = image;
+  const pixelCount = width * height;
+  const size = Math.max(width, height);
+
+  const channels = [0, 1, 2].map(channel => {
+    const values = new Float32Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      values[i] = data[i * 4 + channel];
+    }
+    return values;
+  });
+
+  if (settings.grayscale) {
+    for (let i = 0; i < pixelCount; i++) {
+      const luminance = 0.299 * channels[0][i] + 0.587 * channels[1][i] + 0.114 * channels[2][i];
+      channels[0][i] = channels[1][i] = channels[2][i] = luminance;
+    }
+  }
+
+  const curve = toneCurve(settings);
+  for (const values of channels) {
+    for (let i = 0; i < pixelCount; i++) {
+      const toned = curve[Math.round(clamp(values[i]))];
+      values[i] = settings.invert ? 255 - toned : toned;
+    }
+  }
+
+  if (settings.sharpen > 0) {
+    for (const values of channels) {
+      const blurred = blurChannel(values, width, height, size * SHARPEN_RADIUS);
+      for (let i = 0; i < pixelCount; i++) {
+        values[i] = clamp(values[i] + settings.sharpen * (values[i] - blurred[i]));
+      }
+    }
+  }
+
+  if (settings.edges > 0) {
+    const luminance = new Float32Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      luminance[i] = 0.299 * channels[0][i] + 0.587 * channels[1][i] + 0.114 * channels[2][i];
+    }
+    const at = (x: number, y: number) =>
+      luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+        const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+        const darken = Math.min(255, Math.hypot(gx, gy) / 4) * settings.edges;
+        const i = y * width + x;
+        for (const values of channels) {
+          values[i] = clamp(values[i] - darken);
+        }
+      }
+    }
+  }
+
+  if (settings.backgroundBlur > 0) {
+    const blurred = channels.map(values => blurChannel(values, width, height, size * BACKGROUND_RADIUS * settings.backgroundBlur));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const weight = smoothstep(SHARP_CENTER, 1, radialDistance(x, y, width, height));
+        const i = y * width + x;
+        channels.forEach((values, channel) => {
+          values[i] += (blurred[channel][i] - values[i]) * weight;
+        });
+      }
+    }
+  }
+
+  // Square and rectangular boards have nails along the image's edges, so there is nothing to mask
+  const maskOutside = settings.vignette && (boardShape === 'circle' || boardShape === 'ellipse');
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const keep = maskOutside ? 1 - smoothstep(1 - VIGNETTE_FEATHER, 1, radialDistance(x, y, width, height)) : 1;
+      for (let channel = 0; channel < 3; channel++) {
+        data[i * 4 + channel] = clamp(channels[channel][i] * keep + 255 * (1 - keep));
+      }
+    }
+  }
+  return image;
+}
+
+// Convenience wrapper for canvases, which is how both the preview and the upload hold the crop
+export function preprocessCanvas(canvas: HTMLCanvasElement, settings: PreprocessSettings, boardShape: BoardShape) {
+  if (isDefaultPreprocess(settings)) return;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('No 2d context');
+  }
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  ctx.putImageData(preprocessPixels(image, settings, boardShape), 0, 0);
+}
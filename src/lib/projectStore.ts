@@ -0,0 +1,130 @@
+import type { GenerationParameters } from './parameters';
+import type { StringArtPattern } from './pattern';
+import type { PreprocessSettings } from './preprocess';
+
+// Crop modal state needed to reproduce the exact crop of the original image
+export interface CropSettings {
+  position: { x: number; y: number };
+  zoom: number;
+  areaPixels: { x: number; y: number; width: number; height: number };
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  originalImage: Blob | null;     // Null for patterns that were imported rather than generated
+  crop: CropSettings | null;
+  preprocess?: PreprocessSettings | null;  // Missing on projects saved before preprocessing existed
+  parameters: GenerationParameters | null;
+  processedImage: string | null;  // Data URL returned by the server (or the local crop)
+  pattern: StringArtPattern;
+  thumbnail: string | null;       // Small PNG data URL for the gallery
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'string-art';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+// Most recently updated first
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore('readonly', store => store.getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export const getProject = (id: string) =>
+  withStore('readonly', store => store.get(id) as IDBRequest<Project | undefined>);
+
+export async function saveProject(project: Project): Promise<Project> {
+  await withStore('readwrite', store => store.put(project));
+  return project;
+}
+
+export const deleteProject = (id: string) => withStore('readwrite', store => store.delete(id));
+
+// Read and write in one transaction, so a save landing in between is not overwritten with the old fields
+export async function renameProject(id: string, name: string): Promise<Project> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    let renamed: Project | undefined;
+    const request = store.get(id) as IDBRequest<Project | undefined>;
+    request.onsuccess = () => {
+      if (!request.result) {
+        transaction.abort();
+        return;
+      }
+      renamed = { ...request.result, name, updatedAt: Date.now() };
+      store.put(renamed);
+    };
+    transaction.oncomplete = () => resolve(renamed as Project);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Project not found'));
+  });
+}
+
+export async function duplicateProject(id: string): Promise<Project> {
+  const project = await getProject(id);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const now = Date.now();
+  return saveProject({
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function createProject(fields: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Project {
+  const now = Date.now();
+  return { ...fields, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+}
+
+// Usage of the whole origin, which is as close as browsers let us get to the store's size
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,189 @@
+import { getPatternBounds, getStrings } from './pattern';
+import type { Nail, StringArtPattern } from './pattern';
+import { fitTransform } from './renderers';
+import { rasterizeLine, toDarknessMap } from '../solver/stringArtSolver';
+
+// Darkness map (0 = white, 255 = black) of an image or a render, row by row
+export interface DarknessImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface QualitySample {
+  lines: number;  // Strings drawn
+  rmse: number;   // 0 (identical) to 1
+  ssim: number;   // 1 (identical) down to -1
+}
+
+// Long side of the grid the metrics are computed on, the local solver's working size
+export const ANALYSIS_SIZE = 300;
+
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Root mean square difference, normalized to 0-1
+export function rmse(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return a.length > 0 ? Math.sqrt(sum / a.length) / 255 : 0;
+}
+
+/**
+ * Mean structural similarity over non-overlapping 8×8 windows. Cheaper than
+ * the usual Gaussian sliding window and close enough to compare renders of
+ * the same pattern with each other.
+ */
+export function ssim(a: DarknessImage, b: DarknessImage): number {
+  const { width, height } = a;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top < height; top += SSIM_WINDOW) {
+    for (let left = 0; left < width; left += SSIM_WINDOW) {
+      const bottom = Math.min(top + SSIM_WINDOW, height);
+      const right = Math.min(left + SSIM_WINDOW, width);
+      const count = (bottom - top) * (right - left);
+
+      let sumA = 0;
+      let sumB = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          sumA += a.data[y * width + x];
+          sumB += b.data[y * width + x];
+        }
+      }
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+
+      let varA = 0;
+      let varB = 0;
+      let covariance = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const da = a.data[y * width + x] - meanA;
+          const db = b.data[y * width + x] - meanB;
+          varA += da * da;
+          varB += db * db;
+          covariance += da * db;
+        }
+      }
+      varA /= count;
+      varB /= count;
+      covariance /= count;
+
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+        / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+}
+
+// Draws an image URL onto a white width × height canvas, the same way the local solver reads its input
+export async function loadDarknessImage(url: string, width: number, height: number): Promise<DarknessImage> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.addEventListener('load', () => resolve(element));
+    element.addEventListener('error', () => reject(new Error('Could not load the source image')));
+    element.src = url;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('No 2d context');
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return { width, height, data: toDarknessMap(ctx.getImageData(0, 0, width, height).data) };
+}
+
+// Whole-pixel size with `longSide` as its longer side and the aspect ratio of width × height
+export const sizeFor = (longSide: number, width: number, height: number) => {
+  const scale = longSide / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Nail positions on a width × height analysis grid that the whole board fills
+export function gridNails(pattern: StringArtPattern, width: number, height: number): Nail[] {
+  const toGrid = fitTransform(getPatternBounds(pattern), width, height, 0);
+  return pattern.nails.map(nail => ({ x: nail.x * toGrid.scale + toGrid.x, y: nail.y * toGrid.scale + toGrid.y }));
+}
+
+/**
+ * Replays the strings the way the solver models them: every string darkens
+ * the pixels it crosses by `lineWeight`, capped at black. All thread layers
+ * count as dark thread on a light board.
+ */
+export function createStringRenderer(pattern: StringArtPattern, width: number, height: number, lineWeight: number) {
+  const nails = gridNails(pattern, width, height);
+  const strings = getStrings(pattern);
+  const data = new Float32Array(width * height);
+  let drawn = 0;
+
+  return {
+    total: strings.length,
+    image: { width, height, data } as DarknessImage,
+    get drawn() {
+      return drawn;
+    },
+    // Draws further strings until `count` are on the board; never goes back
+    advanceTo(count: number) {
+      const target = Math.min(count, strings.length);
+      for (; drawn < target; drawn++) {
+        const from = nails[strings[drawn].from];
+        const to = nails[strings[drawn].to];
+        if (!from || !to) continue;
+        for (const pixel of rasterizeLine(from, to, width, height)) {
+          data[pixel] = Math.min(255, data[pixel] + lineWeight);
+        }
+      }
+    },
+  };
+}
+
+export function measure(source: DarknessImage, render: DarknessImage, lines: number): QualitySample {
+  return { lines, rmse: rmse(source.data, render.data), ssim: ssim(source, render) };
+}
+
+// Error after 0, ..., total strings at `samples` evenly spaced points
+export function qualityCurve(
+  pattern: StringArtPattern,
+  source: DarknessImage,
+  lineWeight: number,
+  samples = 50,
+): QualitySample[] {
+  const renderer = createStringRenderer(pattern, source.width, source.height, lineWeight);
+  const points = Math.max(1, Math.min(samples, renderer.total));
+  const curve: QualitySample[] = [];
+  for (let i = 0; i <= points; i++) {
+    const lines = Math.round((renderer.total * i) / points);
+    renderer.advanceTo(lines);
+    curve.push(measure(source, renderer.image, lines));
+  }
+  return curve;
+}
+
+/**
+ * Signed difference as RGBA pixels: red where the strings are darker than the
+ * source, blue where they are lighter, black where they agree.
+ */
+export function differenceHeatmap(source: DarknessImage, render: DarknessImage): ImageData {
+  const heatmap = new ImageData(source.width, source.height);
+  for (let i = 0; i < source.data.length; i++) {
+    const diff = render.data[i] - source.data[i];
+    heatmap.data[i * 4] = diff > 0 ? diff : 0;
+    heatmap.data[i * 4 + 1] = 0;
+    heatmap.data[i * 4 + 2] = diff < 0 ? -diff : 0;
+    heatmap.data[i * 4 + 3] = 255;
+  }
+  return heatmap;
+}
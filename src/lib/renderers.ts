@@ -0,0 +1,218 @@
+import { escapeMarkup } from './exporters';
+import { countStrings, getPatternBounds, getStrings, getThreadLayers, isMultiColor } from './pattern';
+import type { Bounds, Nail, StringArtPattern } from './pattern';
+
+// Uniform scale followed by a translation
+export interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface RenderStyle {
+  background: string | null;  // null keeps the background transparent
+  threadColor: string;        // Single-color patterns only; thread layers bring their own
+  threadOpacity: number;
+  threadWidth: number;        // In stage pixels, scaled with the output like the preview
+  showNails: boolean;
+  showNumbers: boolean;
+}
+
+export interface RenderOptions extends RenderStyle {
+  width: number;              // Output size in pixels
+  height: number;
+  patternToStage: Transform;  // How the visualizer fits the pattern onto its stage
+  stageToOutput: Transform;   // Stage zoom/pan (for the current view) and upscaling
+  visibleCount: number;       // Same meaning as currentLineIndex
+  hiddenLayers?: number[];    // Thread layers left out of the render
+}
+
+// Visualizer look, so exports match what is on screen by default
+export const DEFAULT_RENDER_STYLE: RenderStyle = {
+  background: '#111827',
+  threadColor: '#fbbf24',
+  threadOpacity: 0.7,
+  threadWidth: 0.8,
+  showNails: true,
+  showNumbers: false,
+};
+
+const NAIL_RADIUS = 3;
+const NAIL_FILL = '#ef4444';
+const NAIL_STROKE = '#dc2626';
+const NUMBER_COLOR = '#ffffff';
+const NUMBER_FONT_SIZE = 10;
+
+// Fits and centers `bounds` inside a width × height area, keeping `padding` on every side
+export function fitTransform(bounds: Bounds, width: number, height: number, padding: number): Transform {
+  const scale = Math.min((width - padding * 2) / bounds.width, (height - padding * 2) / bounds.height);
+  return {
+    scale,
+    x: (width - bounds.width * scale) / 2 - bounds.x * scale,
+    y: (height - bounds.height * scale) / 2 - bounds.y * scale,
+  };
+}
+
+const compose = (inner: Transform, outer: Transform): Transform => ({
+  scale: inner.scale * outer.scale,
+  x: inner.x * outer.scale + outer.x,
+  y: inner.y * outer.scale + outer.y,
+});
+
+const apply = (t: Transform, nail: Nail): Nail => ({ x: nail.x * t.scale + t.x, y: nail.y * t.scale + t.y });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function threadStyles(pattern: StringArtPattern, options: RenderOptions) {
+  const multiColor = isMultiColor(pattern);
+  return getThreadLayers(pattern).map((thread, index) => ({
+    color: multiColor ? thread.color : options.threadColor,
+    opacity: multiColor ? thread.opacity : options.threadOpacity,
+    visible: !options.hiddenLayers?.includes(index),
+  }));
+}
+
+// Strings 1..visibleCount-1 in build order
+const visibleStrings = (pattern: StringArtPattern, options: RenderOptions) =>
+  getStrings(pattern).slice(0, Math.max(0, options.visibleCount - 1));
+
+function projectNails(pattern: StringArtPattern, options: RenderOptions) {
+  const toOutput = compose(options.patternToStage, options.stageToOutput);
+  return {
+    nails: pattern.nails.map(nail => apply(toOutput, nail)),
+    // Strokes, nails and labels are sized in stage pixels like in the visualizer
+    unit: options.stageToOutput.scale,
+  };
+}
+
+export function renderToCanvas(pattern: StringArtPattern, options: RenderOptions): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('No 2d context');
+  }
+
+  const { nails, unit } = projectNails(pattern, options);
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, options.width, options.height);
+  }
+
+  const threads = threadStyles(pattern, options);
+  ctx.lineWidth = options.threadWidth * unit;
+  for (const string of visibleStrings(pattern, options)) {
+    const thread = threads[string.layer];
+    const from = nails[string.from];
+    const to = nails[string.to];
+    if (!thread.visible || !from || !to) continue;
+    ctx.strokeStyle = thread.color;
+    ctx.globalAlpha = thread.opacity;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+
+  if (options.showNails) {
+    ctx.strokeStyle = NAIL_STROKE;
+    ctx.lineWidth = unit;
+    ctx.font = `${NUMBER_FONT_SIZE * unit}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    nails.forEach((nail, index) => {
+      ctx.beginPath();
+      ctx.arc(nail.x, nail.y, NAIL_RADIUS * unit, 0, Math.PI * 2);
+      ctx.fillStyle = NAIL_FILL;
+      ctx.fill();
+      ctx.stroke();
+      if (options.showNumbers) {
+        ctx.fillStyle = NUMBER_COLOR;
+        ctx.fillText(String(index), nail.x, nail.y - 20 * unit);
+      }
+    });
+  }
+
+  return canvas;
+}
+
+export function renderToPng(pattern: StringArtPattern, options: RenderOptions): Promise<Blob> {
+  const canvas = renderToCanvas(pattern, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('The image is too large for this browser; try a smaller resolution'));
+      }
+    }, 'image/png');
+  });
+}
+
+// Vector export with one path per string, in build order and grouped by thread
+export function renderToSvg(pattern: StringArtPattern, options: RenderOptions): string {
+  const { nails, unit } = projectNails(pattern, options);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">`,
+  ];
+
+  if (options.background) {
+    parts.push(`<rect width="100%" height="100%" fill="${escapeMarkup(options.background)}"/>`);
+  }
+
+  const threads = threadStyles(pattern, options);
+  let openLayer = -1;
+  for (const string of visibleStrings(pattern, options)) {
+    const thread = threads[string.layer];
+    const from = nails[string.from];
+    const to = nails[string.to];
+    if (!thread.visible || !from || !to) continue;
+    if (string.layer !== openLayer) {
+      if (openLayer >= 0) parts.push('</g>');
+      parts.push(
+        `<g fill="none" stroke="${escapeMarkup(thread.color)}" stroke-opacity="${thread.opacity}" stroke-width="${round(options.threadWidth * unit)}" stroke-linecap="round">`
+      );
+      openLayer = string.layer;
+    }
+    parts.push(`<path d="M${round(from.x)} ${round(from.y)}L${round(to.x)} ${round(to.y)}"/>`);
+  }
+  if (openLayer >= 0) parts.push('</g>');
+
+  if (options.showNails) {
+    parts.push(`<g fill="${NAIL_FILL}" stroke="${NAIL_STROKE}" stroke-width="${round(unit)}">`);
+    nails.forEach(nail => {
+      parts.push(`<circle cx="${round(nail.x)}" cy="${round(nail.y)}" r="${round(NAIL_RADIUS * unit)}"/>`);
+    });
+    parts.push('</g>');
+
+    if (options.showNumbers) {
+      parts.push(`<g fill="${NUMBER_COLOR}" font-family="sans-serif" font-size="${round(NUMBER_FONT_SIZE * unit)}" text-anchor="middle" dominant-baseline="hanging">`);
+      nails.forEach((nail, index) => {
+        parts.push(`<text x="${round(nail.x)}" y="${round(nail.y - 20 * unit)}">${index}</text>`);
+      });
+      parts.push('</g>');
+    }
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// Small preview of the complete pattern, used by the project gallery
+export function renderThumbnail(pattern: StringArtPattern, size = 160): string {
+  const canvas = renderToCanvas(pattern, {
+    ...DEFAULT_RENDER_STYLE,
+    showNails: false,
+    threadWidth: 0.5,
+    threadOpacity: 0.4,
+    width: size,
+    height: size,
+    patternToStage: fitTransform(getPatternBounds(pattern), size, size, 4),
+    stageToOutput: { scale: 1, x: 0, y: 0 },
+    visibleCount: countStrings(pattern) + 1,
+  });
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,39 @@
+import { clampMeasurements, estimateThread, loadMeasurements } from './estimates';
+import { getStrings } from './pattern';
+import type { Project } from './projectStore';
+
+/*
+ * Generations of the current image, kept in memory while parameters are being
+ * tuned. Every run holds what its project would, so the one picked in the
+ * end can replace the open project as if it had been the last generation.
+ */
+
+export type RunFields = Omit<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'thumbnail'>;
+
+export interface GenerationRun extends RunFields {
+  id: number;
+  createdAt: number;
+}
+
+// Patterns and processed images add up, so only the latest runs are kept
+export const MAX_RUNS = 8;
+export const COMPARE_RUNS = { min: 2, max: 4 } as const;
+
+let nextRunId = 1;
+
+// Picks the run's own fields, so a whole project or run can be passed in
+export const toRunFields = ({ originalImage, crop, preprocess, parameters, processedImage, pattern }: RunFields): RunFields =>
+  ({ originalImage, crop, preprocess, parameters, processedImage, pattern });
+
+export const createRun = (fields: RunFields): GenerationRun =>
+  ({ ...toRunFields(fields), id: nextRunId++, createdAt: Date.now() });
+
+// Newest last; the oldest runs fall off once there are more than MAX_RUNS
+export const addRun = (runs: GenerationRun[], fields: RunFields): GenerationRun[] =>
+  [...runs, createRun(fields)].slice(-MAX_RUNS);
+
+// Thread to buy for the whole pattern, with the board measurements last used in the materials panel
+export function runThreadMm(run: GenerationRun): number {
+  const strings = getStrings(run.pattern);
+  return estimateThread(run.pattern, strings, strings.length, clampMeasurements(loadMeasurements())).totalMm;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMETERS } from './parameters';
+import type { StringArtPattern } from './pattern';
+import { ShareLinkError, decodeShare, encodeShare, readShareHash } from './shareLink';
+import type { ShareViewState, SharedPattern } from './shareLink';
+
+const nails = [{ x: 0, y: 0 }, { x: 12.5, y: 0 }, { x: 12.5, y: 12.5 }, { x: 0, y: 12.25 }];
+const view: ShareViewState = {
+  currentLineIndex: 3,
+  scale: 2.5,
+  position: { x: 0.25, y: -0.5 },
+  showNails: true,
+  showNailNumbers: false,
+  hiddenLayers: [],
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Deflates raw payload bytes the way a share link carries them
+async function toCode(bytes: number[]): Promise<string> {
+  const deflated = await transform(new Uint8Array(bytes), new CompressionStream('deflate-raw'));
+  return btoa(String.fromCharCode(...deflated)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function fromCode(code: string): Promise<number[]> {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return [...await transform(Uint8Array.from(binary, char => char.charCodeAt(0)), new DecompressionStream('deflate-raw'))];
+}
+
+const decodeError = async (code: string) => {
+  const error = await decodeShare(code).catch(caught => caught);
+  expect(error).toBeInstanceOf(ShareLinkError);
+  return (error as ShareLinkError).message;
+};
+
+describe('share links', () => {
+  it('round-trip a pattern with its board, parameters and view', async () => {
+    const shared: SharedPattern = {
+      pattern: { nails, lines: [0, 2, 1, 3, 0], board: { width: 12.5, height: 12.5, shape: 'square' } },
+      parameters: { ...DEFAULT_PARAMETERS, seed: 1234, aspectRatio: 1.5, boardShape: 'rectangle' },
+      view,
+    };
+    expect(await decodeShare(await encodeShare(shared))).toEqual(shared);
+  });
+
+  it('round-trip thread layers and hidden threads', async () => {
+    const pattern: StringArtPattern = {
+      nails,
+      lines: [],
+      layers: [
+        { name: 'Röd', color: '#ff0000', opacity: 1, lines: [3, 1, 2] },
+        { name: 'Blue', color: 'rgb(0, 0, 255)', opacity: 0, lines: [0, 2] },
+      ],
+    };
+    const shared = { pattern, parameters: null, view: { ...view, showNails: false, showNailNumbers: true, hiddenLayers: [1] } };
+    expect(await decodeShare(await encodeShare(shared))).toEqual(shared);
+  });
+
+  it('fit in a URL fragment', async () => {
+    const code = await encodeShare({ pattern: { nails, lines: [0, 2] }, parameters: null, view });
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('find the share in a location hash', () => {
+    expect(readShareHash('#share=abc')).toBe('abc');
+    expect(readShareHash('#share=')).toBeNull();
+    expect(readShareHash('#other=1')).toBeNull();
+  });
+});
+
+describe('damaged share links', () => {
+  it('are rejected when they do not inflate', async () => {
+    expect(await decodeError('not-a-share')).toBe('The share link is damaged or incomplete');
+  });
+
+  it('are rejected when they use another format version', async () => {
+    expect(await decodeError(await toCode([99, 0]))).toContain('format version 99');
+  });
+
+  it('are rejected when they are cut off', async () => {
+    const code = await encodeShare({ pattern: { nails, lines: [0, 2, 1] }, parameters: null, view });
+    const bytes = await fromCode(code);
+    expect(await decodeError(await toCode(bytes.slice(0, -3)))).toBe('The share link is cut off');
+  });
+
+  it('are rejected before allocating for counts beyond the limits or the payload', async () => {
+    // Version 1, no flags, then a nail count of 2^28 - 1
+    expect(await decodeError(await toCode([1, 0, 0xff, 0xff, 0xff, 0x7f]))).toContain('more nails than');
+    // 50 nails announced, only two bytes follow
+    expect(await decodeError(await toCode([1, 0, 50, 1, 1]))).toBe('The share link is cut off');
+    // One nail, then far more strings than the payload holds
+    expect(await decodeError(await toCode([1, 0, 1, 0, 0, 1, 0xe8, 0x07, 0]))).toBe('The share link is cut off');
+  });
+
+  it('are rejected when the pattern inside is invalid', async () => {
+    // One nail at the origin, one thread without nails, then a zeroed view
+    const error = await decodeShare(await toCode([1, 0, 1, 0, 0, 1, 0, ...new Array(14).fill(0)])).catch(caught => caught);
+    expect(error).toBeInstanceOf(ShareLinkError);
+    expect(error.message).toContain('does not contain a valid pattern');
+  });
+});
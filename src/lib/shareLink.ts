@@ -0,0 +1,373 @@
+import { BOARD_SHAPES } from './parameters';
+import type { GenerationParameters } from './parameters';
+import { PatternFormatError, getThreadLayers, isMultiColor } from './pattern';
+import type { StringArtPattern } from './pattern';
+import { parseParameters, parsePatternData, summarizeIssues } from './patternValidation';
+
+// Visualizer state that travels with a shared pattern
+export interface ShareViewState {
+  currentLineIndex: number;
+  scale: number;
+  position: { x: number; y: number };  // Pan in stage widths, so it looks the same on any screen
+  showNails: boolean;
+  showNailNumbers: boolean;
+  hiddenLayers: number[];
+}
+
+export interface SharedPattern {
+  pattern: StringArtPattern;
+  parameters: GenerationParameters | null;
+  view: ShareViewState;
+}
+
+export class ShareLinkError extends PatternFormatError {
+  constructor(message: string, issues: string[] = []) {
+    super(message, issues);
+    this.name = 'ShareLinkError';
+  }
+}
+
+// Fragment key, as in #share=...
+export const SHARE_HASH_KEY = 'share';
+
+/*
+ * Binary layout (version 1), unsigned varints unless noted, deflated and base64url encoded:
+ *   version u8, flags u8 (see FLAGS)
+ *   nails: count, then x and y as zigzag deltas from the previous nail, in hundredths of a unit
+ *   board (FLAGS.board): width and height in hundredths, shape (0 none, else BOARD_SHAPES index + 1)
+ *   threads: count, then per thread
+ *     name, color (length-prefixed UTF-8) and opacity u8, only for multi-color patterns
+ *     sequence length, first nail, then each next nail as its forward distance around the nail ring
+ *   parameters (FLAGS.parameters): nailCount, maxLines, lineWeight, minDistance,
+ *     shape index, aspect ratio in thousandths, seed + 1 (0 for a random seed)
+ *   view: currentLineIndex, scale float32, position x and y float32, hidden thread count and indices
+ * The forward distances stay small because solvers hop between nearby nails, which is what makes it compress.
+ */
+const FORMAT_VERSION = 1;
+const FLAGS = {
+  board: 1,
+  parameters: 2,
+  multiColor: 4,
+  showNails: 8,
+  showNailNumbers: 16,
+};
+const COORDINATE_SCALE = 100;
+const ASPECT_SCALE = 1000;
+// Far beyond anything the app generates, so a crafted link cannot make the reader allocate without end
+const MAX_COUNTS = { nails: 10000, threads: 64, lines: 100000 } as const;
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+
+  private reserve(count: number) {
+    if (this.length + count <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+    grown.set(this.bytes);
+    this.bytes = grown;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  // Plain arithmetic rather than bit operators so values past 2^31 survive
+  varint(value: number) {
+    let rest = Math.max(0, Math.floor(value));
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.byte(rest);
+  }
+
+  zigzag(value: number) {
+    const rounded = Math.round(value);
+    this.varint(rounded < 0 ? -2 * rounded - 1 : 2 * rounded);
+  }
+
+  float32(value: number) {
+    this.reserve(4);
+    new DataView(this.bytes.buffer).setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new ShareLinkError('The share link is cut off');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * factor;
+      if (byte < 0x80) return value;
+      factor *= 0x80;
+      if (factor > 2 ** 53) {
+        throw new ShareLinkError('The share link contains an invalid number');
+      }
+    }
+  }
+
+  // Number of items that follow, each taking at least `itemBytes`, so a count the rest cannot hold is caught early
+  count(max: number, itemBytes: number, what: string): number {
+    const value = this.varint();
+    if (value > max) {
+      throw new ShareLinkError(`The share link contains more ${what} than the ${max} allowed`);
+    }
+    if (value * itemBytes > this.bytes.length - this.offset) {
+      throw new ShareLinkError('The share link is cut off');
+    }
+    return value;
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  float32(): number {
+    if (this.offset + 4 > this.bytes.length) {
+      throw new ShareLinkError('The share link is cut off');
+    }
+    const value = new DataView(this.bytes.buffer, this.bytes.byteOffset).getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): string {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) {
+      throw new ShareLinkError('The share link is cut off');
+    }
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const shapeIndex = (shape: string | undefined) => BOARD_SHAPES.findIndex(option => option.value === shape) + 1;
+
+function writeShare({ pattern, parameters, view }: SharedPattern): Uint8Array {
+  const writer = new ByteWriter();
+  const multiColor = isMultiColor(pattern);
+  const nailCount = pattern.nails.length;
+
+  writer.byte(FORMAT_VERSION);
+  writer.byte(
+    (pattern.board ? FLAGS.board : 0)
+    | (parameters ? FLAGS.parameters : 0)
+    | (multiColor ? FLAGS.multiColor : 0)
+    | (view.showNails ? FLAGS.showNails : 0)
+    | (view.showNailNumbers ? FLAGS.showNailNumbers : 0),
+  );
+
+  writer.varint(nailCount);
+  let previous = { x: 0, y: 0 };
+  for (const nail of pattern.nails) {
+    const current = { x: Math.round(nail.x * COORDINATE_SCALE), y: Math.round(nail.y * COORDINATE_SCALE) };
+    writer.zigzag(current.x - previous.x);
+    writer.zigzag(current.y - previous.y);
+    previous = current;
+  }
+
+  if (pattern.board) {
+    writer.varint(pattern.board.width * COORDINATE_SCALE);
+    writer.varint(pattern.board.height * COORDINATE_SCALE);
+    writer.varint(shapeIndex(pattern.board.shape));
+  }
+
+  const threads = getThreadLayers(pattern);
+  writer.varint(threads.length);
+  for (const thread of threads) {
+    if (multiColor) {
+      writer.string(thread.name);
+      writer.string(thread.color);
+      writer.byte(Math.round(thread.opacity * 255));
+    }
+    writer.varint(thread.lines.length);
+    thread.lines.forEach((nail, i) => {
+      writer.varint(i === 0 ? nail : (nail - thread.lines[i - 1] + nailCount) % nailCount);
+    });
+  }
+
+  if (parameters) {
+    writer.varint(parameters.nailCount);
+    writer.varint(parameters.maxLines);
+    writer.varint(parameters.lineWeight);
+    writer.varint(parameters.minDistance);
+    writer.varint(shapeIndex(parameters.boardShape));
+    writer.varint(parameters.aspectRatio * ASPECT_SCALE);
+    writer.varint(parameters.seed === null ? 0 : parameters.seed + 1);
+  }
+
+  writer.varint(view.currentLineIndex);
+  writer.float32(view.scale);
+  writer.float32(view.position.x);
+  writer.float32(view.position.y);
+  writer.varint(view.hiddenLayers.length);
+  view.hiddenLayers.forEach(layer => writer.varint(layer));
+
+  return writer.result();
+}
+
+function readShare(bytes: Uint8Array): SharedPattern {
+  const reader = new ByteReader(bytes);
+  const version = reader.byte();
+  if (version !== FORMAT_VERSION) {
+    throw new ShareLinkError(`The share link uses format version ${version}, which this app cannot read`);
+  }
+  const flags = reader.byte();
+
+  const nailCount = reader.count(MAX_COUNTS.nails, 2, 'nails');
+  const nails = [];
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < nailCount; i++) {
+    x += reader.zigzag();
+    y += reader.zigzag();
+    nails.push({ x: x / COORDINATE_SCALE, y: y / COORDINATE_SCALE });
+  }
+
+  let board: Record<string, unknown> | undefined;
+  if (flags & FLAGS.board) {
+    board = {
+      width: reader.varint() / COORDINATE_SCALE,
+      height: reader.varint() / COORDINATE_SCALE,
+      shape: BOARD_SHAPES[reader.varint() - 1]?.value,
+    };
+  }
+
+  const multiColor = (flags & FLAGS.multiColor) !== 0;
+  const threads = Array.from({ length: reader.count(MAX_COUNTS.threads, multiColor ? 4 : 1, 'threads') }, () => {
+    const style = multiColor
+      ? { name: reader.string(), color: reader.string(), opacity: reader.byte() / 255 }
+      : {};
+    const lines: number[] = [];
+    const length = reader.count(MAX_COUNTS.lines, 1, 'lines');
+    for (let i = 0; i < length; i++) {
+      const value = reader.varint();
+      lines.push(i === 0 ? value : (lines[i - 1] + value) % Math.max(nailCount, 1));
+    }
+    return { ...style, lines };
+  });
+
+  let parameters: GenerationParameters | null = null;
+  if (flags & FLAGS.parameters) {
+    const nailTotal = reader.varint();
+    const maxLines = reader.varint();
+    const lineWeight = reader.varint();
+    const minDistance = reader.varint();
+    const boardShape = BOARD_SHAPES[reader.varint() - 1]?.value;
+    const aspectRatio = reader.varint() / ASPECT_SCALE;
+    const seed = reader.varint();
+    parameters = parseParameters({
+      nailCount: nailTotal,
+      maxLines,
+      lineWeight,
+      minDistance,
+      boardShape,
+      aspectRatio,
+      seed: seed === 0 ? null : seed - 1,
+    });
+  }
+
+  const currentLineIndex = reader.varint();
+  const scale = reader.float32();
+  const position = { x: reader.float32(), y: reader.float32() };
+  const hiddenLayers = Array.from({ length: reader.count(threads.length, 1, 'hidden threads') }, () => reader.varint());
+
+  // Same checks as any other pattern from outside the app
+  const issues: string[] = [];
+  const pattern = parsePatternData(
+    multiColor ? { nails, board, layers: threads } : { nails, board, lines: threads[0]?.lines ?? [] },
+    'share',
+    issues,
+  );
+  if (issues.length > 0) {
+    throw new ShareLinkError(`The share link does not contain a valid pattern: ${summarizeIssues(issues)}`, issues);
+  }
+
+  return {
+    pattern,
+    parameters,
+    view: {
+      currentLineIndex,
+      scale: Number.isFinite(scale) && scale > 0 ? scale : 1,
+      position: Number.isFinite(position.x) && Number.isFinite(position.y) ? position : { x: 0, y: 0 },
+      showNails: (flags & FLAGS.showNails) !== 0,
+      showNailNumbers: (flags & FLAGS.showNailNumbers) !== 0,
+      hiddenLayers,
+    },
+  };
+}
+
+// Compact, URL-safe text for a pattern and how it is being viewed
+export async function encodeShare(shared: SharedPattern): Promise<string> {
+  return toBase64Url(await transform(writeShare(shared), new CompressionStream('deflate-raw')));
+}
+
+export async function decodeShare(text: string): Promise<SharedPattern> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await transform(fromBase64Url(text), new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new ShareLinkError('The share link is damaged or incomplete');
+  }
+  return readShare(bytes);
+}
+
+// Full link to the current page with the share in its fragment
+export const toShareUrl = (code: string) =>
+  `${window.location.origin}${window.location.pathname}#${SHARE_HASH_KEY}=${code}`;
+
+// The encoded share in a fragment like "#share=...", if there is one
+export function readShareHash(hash: string): string | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  return value && value.length > 0 ? value : null;
+}
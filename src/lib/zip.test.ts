@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+  time: number;
+  date: number;
+}
+
+// Reads a stored archive back through its central directory, as unzip tools do
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  expect(cursor + view.getUint32(end + 12, true)).toBe(end);
+
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const offset = view.getUint32(cursor + 42, true);
+    const size = view.getUint32(cursor + 24, true);
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(view.getUint32(cursor + 16, true));
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength)),
+      crc: view.getUint32(cursor + 16, true),
+      data: bytes.slice(dataStart, dataStart + size),
+      time: view.getUint16(cursor + 12, true),
+      date: view.getUint16(cursor + 14, true),
+    });
+    cursor += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores every entry with its name, data and checksum', async () => {
+    const zip = await createZip([
+      { name: 'hello.txt', data: 'hello' },
+      { name: 'bilder/Ärmel.bin', data: new Uint8Array([0, 1, 2, 255]) },
+      { name: 'blob.json', data: new Blob(['{}']) },
+    ]);
+    expect(zip.type).toBe('application/zip');
+
+    const entries = await readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['hello.txt', 'bilder/Ärmel.bin', 'blob.json']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('hello');
+    expect(entries[0].crc).toBe(0x3610a686);
+    expect([...entries[1].data]).toEqual([0, 1, 2, 255]);
+    expect(new TextDecoder().decode(entries[2].data)).toBe('{}');
+  });
+
+  it('writes the modification time in MS-DOS format', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'a', data: '' }], new Date(2024, 2, 15, 13, 45, 31)));
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+    expect(entry.crc).toBe(0);
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(await readZip(await createZip([]))).toEqual([]);
+  });
+});
@@ -1,8 +1,12 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import Konva from 'konva'
 import './index.css'
 import App from './App.tsx'
 
+// Keep touch events coming while the stage is being dragged, which pinching relies on
+Konva.hitOnDragEnabled = true
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
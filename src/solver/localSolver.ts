@@ -0,0 +1,66 @@
+import { DEFAULT_SOLVER_OPTIONS } from './stringArtSolver';
+import type { SolverOptions } from './stringArtSolver';
+import type { StringArtPattern } from '../lib/pattern';
+import type { SolverRequest, SolverResponse } from './solver.worker';
+
+interface LocalSolveConfig {
+  options?: Partial<SolverOptions>;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the greedy solver in a dedicated worker so the UI stays responsive.
+ * Aborting the signal terminates the worker immediately, since the solver
+ * loop is synchronous and cannot check for cancellation on its own.
+ */
+export function solveLocally(image: Blob, config: LocalSolveConfig = {}): Promise<StringArtPattern> {
+  const { onProgress, signal } = config;
+  const options = { ...DEFAULT_SOLVER_OPTIONS, ...config.options };
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.completed, message.total);
+          break;
+        case 'done':
+          cleanup();
+          resolve(message.result);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Solver worker failed'));
+    };
+
+    const request: SolverRequest = { type: 'start', image, options };
+    worker.postMessage(request);
+  });
+}
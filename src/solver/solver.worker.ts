@@ -0,0 +1,46 @@
+import { solveStringArt, toDarknessMap } from './stringArtSolver';
+import { boardDimensions } from '../lib/parameters';
+import type { SolverOptions } from './stringArtSolver';
+import type { StringArtPattern } from '../lib/pattern';
+
+export type SolverRequest = {
+  type: 'start';
+  image: Blob;
+  options: SolverOptions;
+};
+
+export type SolverResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: StringArtPattern }
+  | { type: 'error'; message: string };
+
+const post = (message: SolverResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<SolverRequest>) => {
+  const { image, options } = event.data;
+
+  try {
+    const { width, height } = boardDimensions(options, options.size);
+    const bitmap = await createImageBitmap(image);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('No 2d context');
+    }
+
+    // White background so transparent areas count as "no thread needed"
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const result = solveStringArt(toDarknessMap(data), options, (completed, total) => {
+      post({ type: 'progress', completed, total });
+    });
+
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SOLVER_OPTIONS, generateNails, rasterizeLine, solveStringArt } from './stringArtSolver';
+import type { SolverOptions } from './stringArtSolver';
+
+const SIZE = 60;
+
+// Darker towards the right, so the solver has something to prefer
+const gradient = () => Float32Array.from({ length: SIZE * SIZE }, (_, i) => ((i % SIZE) / SIZE) * 255);
+
+const options = (overrides: Partial<SolverOptions> = {}): SolverOptions => ({
+  ...DEFAULT_SOLVER_OPTIONS,
+  size: SIZE,
+  nailCount: 40,
+  maxLines: 150,
+  minDistance: 5,
+  seed: 42,
+  ...overrides,
+});
+
+describe('solveStringArt', () => {
+  it('reproduces the same pattern for the same seed', () => {
+    const first = solveStringArt(gradient(), options());
+    const second = solveStringArt(gradient(), options());
+    expect(second).toEqual(first);
+  });
+
+  it('starts somewhere else for another seed', () => {
+    const starts = new Set([1, 2, 3, 4, 5].map(seed => solveStringArt(gradient(), options({ seed })).lines[0]));
+    expect(starts.size).toBeGreaterThan(1);
+  });
+
+  it('keeps to the line limit, the skip distance and unused nail pairs', () => {
+    const { nails, lines } = solveStringArt(gradient(), options());
+    expect(nails).toHaveLength(40);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.length).toBeLessThanOrEqual(151);
+
+    const pairs = new Set<string>();
+    for (let i = 1; i < lines.length; i++) {
+      const distance = Math.abs(lines[i] - lines[i - 1]);
+      expect(Math.min(distance, 40 - distance)).toBeGreaterThanOrEqual(5);
+      const pair = [lines[i], lines[i - 1]].sort((a, b) => a - b).join('-');
+      expect(pairs.has(pair)).toBe(false);
+      pairs.add(pair);
+    }
+  });
+
+  it('stops once nothing dark is left', () => {
+    const { lines } = solveStringArt(new Float32Array(SIZE * SIZE), options());
+    expect(lines).toHaveLength(1);
+  });
+
+  it('reports progress up to the line limit', () => {
+    const reports: number[] = [];
+    solveStringArt(gradient(), options(), completed => reports.push(completed));
+    expect(reports.at(-1)).toBe(150);
+    expect(reports).toEqual([...reports].sort((a, b) => a - b));
+  });
+});
+
+describe('generateNails', () => {
+  it('places rectangle nails on the board edge', () => {
+    const nails = generateNails(40, 60, 30, 'rectangle');
+    expect(nails).toHaveLength(40);
+    for (const nail of nails) {
+      const onEdge = nail.x <= 1 || nail.x >= 59 || nail.y <= 1 || nail.y >= 29;
+      expect(onEdge).toBe(true);
+    }
+  });
+});
+
+describe('rasterizeLine', () => {
+  it('covers every pixel of a straight run once and skips pixels off the board', () => {
+    expect(rasterizeLine({ x: 0, y: 1 }, { x: 3, y: 1 }, 4, 4)).toEqual([4, 5, 6, 7]);
+    expect(rasterizeLine({ x: -2, y: 0 }, { x: 1, y: 0 }, 4, 4)).toEqual([0, 1]);
+  });
+});
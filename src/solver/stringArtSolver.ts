@@ -0,0 +1,207 @@
+import { DEFAULT_PARAMETERS, boardDimensions } from '../lib/parameters';
+import type { BoardShape, GenerationParameters } from '../lib/parameters';
+import type { NailPositions } from '../lib/nailLayout';
+import type { Nail, StringArtPattern } from '../lib/pattern';
+
+export interface SolverOptions extends GenerationParameters {
+  size: number;                   // Working resolution of the longer board side; also the nails' coordinate space
+  layout?: NailPositions | null;  // Custom nails instead of the standard ones for boardShape
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  ...DEFAULT_PARAMETERS,
+  size: 300,
+};
+
+// Small seeded PRNG (mulberry32) so a seed reproduces the same pattern
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Nails evenly spaced by angle on the largest ellipse that fits the board
+export function generateEllipseNails(count: number, width: number, height: number): Nail[] {
+  const cx = width / 2;
+  const cy = height / 2;
+  const rx = width / 2 - 1;
+  const ry = height / 2 - 1;
+  const nails: Nail[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = (i / count) * 2 * Math.PI;
+    nails.push({
+      x: cx + rx * Math.cos(angle),
+      y: cy + ry * Math.sin(angle),
+    });
+  }
+  return nails;
+}
+
+// Nails evenly spaced along the perimeter of the board, clockwise from the top-left corner
+export function generateRectangleNails(count: number, width: number, height: number): Nail[] {
+  const w = width - 2;
+  const h = height - 2;
+  const perimeter = 2 * (w + h);
+  const nails: Nail[] = [];
+  for (let i = 0; i < count; i++) {
+    let distance = (i / count) * perimeter;
+    if (distance < w) {
+      nails.push({ x: 1 + distance, y: 1 });
+      continue;
+    }
+    distance -= w;
+    if (distance < h) {
+      nails.push({ x: 1 + w, y: 1 + distance });
+      continue;
+    }
+    distance -= h;
+    if (distance < w) {
+      nails.push({ x: 1 + w - distance, y: 1 + h });
+      continue;
+    }
+    distance -= w;
+    nails.push({ x: 1, y: 1 + h - distance });
+  }
+  return nails;
+}
+
+export const generateNails = (count: number, width: number, height: number, shape: BoardShape) =>
+  shape === 'square' || shape === 'rectangle'
+    ? generateRectangleNails(count, width, height)
+    : generateEllipseNails(count, width, height);
+
+// Custom layout nails, stretched from their own board onto the working one
+const fitLayoutNails = (layout: NailPositions, width: number, height: number): Nail[] =>
+  layout.nails.map(nail => ({
+    x: (nail.x * width) / layout.board.width,
+    y: (nail.y * height) / layout.board.height,
+  }));
+
+// Pixel indices covered by the segment between two nails (Bresenham)
+export function rasterizeLine(a: Nail, b: Nail, width: number, height: number): number[] {
+  let x0 = Math.round(a.x);
+  let y0 = Math.round(a.y);
+  const x1 = Math.round(b.x);
+  const y1 = Math.round(b.y);
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+
+  const pixels: number[] = [];
+  for (;;) {
+    if (x0 >= 0 && x0 < width && y0 >= 0 && y0 < height) {
+      pixels.push(y0 * width + x0);
+    }
+    if (x0 === x1 && y0 === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x0 += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y0 += sy;
+    }
+  }
+  return pixels;
+}
+
+// Converts RGBA pixels of a board-sized image to a darkness map (0 = white, 255 = black)
+export function toDarknessMap(rgba: Uint8ClampedArray): Float32Array {
+  const darkness = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < darkness.length; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    darkness[i] = 255 - (0.299 * r + 0.587 * g + 0.114 * b);
+  }
+  return darkness;
+}
+
+/**
+ * Greedy solver: starting from a seeded random nail, repeatedly pick the
+ * string to the darkest remaining line, then lighten the pixels it covers so
+ * the next pick prefers areas that still need thread.
+ */
+export function solveStringArt(
+  darkness: Float32Array,
+  options: SolverOptions,
+  onProgress?: (completed: number, total: number) => void,
+): StringArtPattern {
+  const { maxLines, lineWeight, minDistance, boardShape, seed, size, layout } = options;
+  const { width, height } = boardDimensions(options, size);
+  const nails = layout
+    ? fitLayoutNails(layout, width, height)
+    : generateNails(options.nailCount, width, height, boardShape);
+  const nailCount = nails.length;
+  const random = createRandom(seed ?? Math.floor(Math.random() * 0xffffffff));
+  const residual = Float32Array.from(darkness);
+
+  const lineCache = new Map<number, number[]>();
+  const getLine = (from: number, to: number) => {
+    const key = from < to ? from * nailCount + to : to * nailCount + from;
+    let pixels = lineCache.get(key);
+    if (!pixels) {
+      pixels = rasterizeLine(nails[from], nails[to], width, height);
+      lineCache.set(key, pixels);
+    }
+    return pixels;
+  };
+
+  const usedPairs = new Set<number>();
+  let current = Math.floor(random() * nailCount);
+  const lines: number[] = [current];
+  const progressStep = Math.max(1, Math.floor(maxLines / 100));
+
+  for (let step = 0; step < maxLines; step++) {
+    let bestNail = -1;
+    let bestScore = 0;
+
+    for (let offset = minDistance; offset <= nailCount - minDistance; offset++) {
+      const candidate = (current + offset) % nailCount;
+      const key = current < candidate
+        ? current * nailCount + candidate
+        : candidate * nailCount + current;
+      if (usedPairs.has(key)) continue;
+
+      const pixels = getLine(current, candidate);
+      let sum = 0;
+      for (let i = 0; i < pixels.length; i++) {
+        sum += residual[pixels[i]];
+      }
+      const score = pixels.length > 0 ? sum / pixels.length : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestNail = candidate;
+      }
+    }
+
+    // Nothing dark left to cover
+    if (bestNail === -1) break;
+
+    const pixels = getLine(current, bestNail);
+    for (let i = 0; i < pixels.length; i++) {
+      residual[pixels[i]] = Math.max(0, residual[pixels[i]] - lineWeight);
+    }
+    usedPairs.add(current < bestNail
+      ? current * nailCount + bestNail
+      : bestNail * nailCount + current);
+
+    lines.push(bestNail);
+    current = bestNail;
+
+    if (onProgress && (step + 1) % progressStep === 0) {
+      onProgress(step + 1, maxLines);
+    }
+  }
+
+  onProgress?.(maxLines, maxLines);
+  return { nails, lines, board: { width, height, shape: layout ? layout.board.shape : boardShape } };
+}